@@ -0,0 +1,299 @@
+#!/usr/bin/env node
+import type { Command } from 'cac'
+import type { ColorMode, FillStrategy, LayerMode, PosterizerOptions, PotraceOptions, QuantizeMethod, RangeDistribution, TurnPolicy } from '../src'
+import { Buffer } from 'node:buffer'
+import { writeFile } from 'node:fs/promises'
+import process from 'node:process'
+import { CAC } from 'cac'
+import { version } from '../package.json'
+import { formatBatchReport, posterizeAsync, Posterizer, Potrace, traceAsync, traceBatch } from '../src'
+
+interface TraceFlags {
+  turdsize?: number | string
+  alphamax?: number | string
+  opttolerance?: number | string
+  longcurve?: boolean
+  turnpolicy?: string
+  blacklevel?: number | string
+  invert?: boolean
+  width?: number | string
+  height?: number | string
+  color?: string
+  fillcolor?: string
+  output?: string
+}
+
+interface PosterizeFlags extends TraceFlags {
+  steps?: number | string
+  fillStrategy?: string
+  rangeDistribution?: string
+  colorMode?: string
+  quantization?: string
+  layerMode?: string
+}
+
+interface BatchFlags extends PosterizeFlags {
+  posterize?: boolean
+  concurrency?: number | string
+}
+
+const TURN_POLICIES: TurnPolicy[] = [
+  Potrace.TURNPOLICY_BLACK,
+  Potrace.TURNPOLICY_WHITE,
+  Potrace.TURNPOLICY_LEFT,
+  Potrace.TURNPOLICY_RIGHT,
+  Potrace.TURNPOLICY_MINORITY,
+  Potrace.TURNPOLICY_MAJORITY,
+]
+
+const FILL_STRATEGIES: FillStrategy[] = [
+  Posterizer.FILL_SPREAD,
+  Posterizer.FILL_DOMINANT,
+  Posterizer.FILL_MEDIAN,
+  Posterizer.FILL_MEAN,
+]
+
+const RANGE_DISTRIBUTIONS: RangeDistribution[] = [
+  Posterizer.RANGES_AUTO,
+  Posterizer.RANGES_EQUAL,
+]
+
+const COLOR_MODES: ColorMode[] = [
+  Posterizer.COLORMODE_GRAYSCALE,
+  Posterizer.COLORMODE_COLOR,
+]
+
+const QUANTIZE_METHODS: QuantizeMethod[] = [
+  Posterizer.QUANTIZE_MEDIAN_CUT,
+  Posterizer.QUANTIZE_KMEANS,
+]
+
+const LAYER_MODES: LayerMode[] = [
+  Posterizer.LAYERS_STACKED,
+  Posterizer.LAYERS_EXCLUSIVE,
+]
+
+const cli = new CAC('ts-potrace')
+
+/**
+ * Registers flags shared by all commands, named after the original potrace ones
+ */
+function withTraceFlags(command: Command): Command {
+  return command
+    .option('-t, --turdsize <n>', 'Suppress speckles of up to this many pixels')
+    .option('-z, --turnpolicy <policy>', 'How to resolve ambiguities in path decomposition: black, white, left, right, minority, majority')
+    .option('-a, --alphamax <n>', 'Corner threshold parameter')
+    .option('-n, --longcurve', 'Turn off curve optimization')
+    .option('-O, --opttolerance <n>', 'Curve optimization tolerance')
+    .option('-k, --blacklevel <n>', 'Black/white cutoff in input file, from 0 to 1 (default: automatic)')
+    .option('-i, --invert', 'Invert bitmap, tracing light areas instead of dark ones')
+    .option('-W, --width <px>', 'Width of output image')
+    .option('-H, --height <px>', 'Height of output image')
+    .option('-C, --color <color>', 'Set foreground color')
+    .option('--fillcolor <color>', 'Set background color (default: transparent)')
+}
+
+/**
+ * Registers Posterizer flags
+ */
+function withPosterizeFlags(command: Command): Command {
+  return command
+    .option('-s, --steps <steps>', 'Number of levels or comma-separated list of thresholds (default: automatic)')
+    .option('--fill-strategy <strategy>', 'How colors of levels are chosen: spread, dominant, median, mean')
+    .option('--range-distribution <distribution>', 'How thresholds are distributed: auto, equal')
+    .option('--color-mode <mode>', 'Trace shades of one color or palette colors of the image: grayscale, color')
+    .option('--quantization <method>', 'How palette is built in color mode: median-cut, kmeans')
+    .option('--layer-mode <mode>', 'Overlapping layers or non-overlapping regions: stacked, exclusive')
+}
+
+/**
+ * Converts flag value to a number, failing with a message that names the flag
+ */
+function toNumber(value: unknown, flag: string): number | undefined {
+  if (value === undefined)
+    return undefined
+
+  const number = Number(value)
+
+  if (typeof value === 'boolean' || value === '' || Number.isNaN(number)) {
+    throw new TypeError(`Bad value for --${flag}: expected a number, got '${value}'`)
+  }
+
+  return number
+}
+
+/**
+ * Checks that flag value is one of allowed values
+ */
+function oneOf<T extends string>(value: unknown, allowed: T[], flag: string): T {
+  if (!allowed.includes(String(value) as T)) {
+    throw new Error(`Bad value for --${flag}: expected one of ${allowed.join(', ')}, got '${value}'`)
+  }
+
+  return String(value) as T
+}
+
+/**
+ * Maps potrace flags to Potrace options, leaving out the ones that were not given
+ */
+function toPotraceOptions(flags: TraceFlags): PotraceOptions {
+  const options: PotraceOptions = {}
+  const blackLevel = toNumber(flags.blacklevel, 'blacklevel')
+
+  if (blackLevel !== undefined) {
+    if (blackLevel < 0 || blackLevel > 1)
+      throw new RangeError('Bad value for --blacklevel: expected a number from 0 to 1')
+    options.threshold = Math.round(blackLevel * 255)
+  }
+
+  if (flags.turdsize !== undefined)
+    options.turdSize = toNumber(flags.turdsize, 'turdsize')
+  if (flags.alphamax !== undefined)
+    options.alphaMax = toNumber(flags.alphamax, 'alphamax')
+  if (flags.opttolerance !== undefined)
+    options.optTolerance = toNumber(flags.opttolerance, 'opttolerance')
+  if (flags.longcurve)
+    options.optCurve = false
+  if (flags.turnpolicy !== undefined)
+    options.turnPolicy = oneOf(flags.turnpolicy, TURN_POLICIES, 'turnpolicy')
+  if (flags.invert)
+    options.blackOnWhite = false
+  if (flags.width !== undefined)
+    options.width = toNumber(flags.width, 'width')
+  if (flags.height !== undefined)
+    options.height = toNumber(flags.height, 'height')
+  if (flags.color !== undefined)
+    options.color = String(flags.color)
+  if (flags.fillcolor !== undefined)
+    options.background = String(flags.fillcolor)
+
+  return options
+}
+
+/**
+ * Maps posterize flags to Posterizer options. Steps can be a number or a comma-separated list of thresholds
+ */
+function toPosterizerOptions(flags: PosterizeFlags): PosterizerOptions {
+  const options: PosterizerOptions = toPotraceOptions(flags)
+
+  if (flags.steps !== undefined) {
+    options.steps = String(flags.steps).includes(',')
+      ? String(flags.steps).split(',').map(step => toNumber(step.trim(), 'steps') as number)
+      : toNumber(flags.steps, 'steps')
+  }
+
+  if (flags.fillStrategy !== undefined)
+    options.fillStrategy = oneOf(flags.fillStrategy, FILL_STRATEGIES, 'fill-strategy')
+  if (flags.rangeDistribution !== undefined)
+    options.rangeDistribution = oneOf(flags.rangeDistribution, RANGE_DISTRIBUTIONS, 'range-distribution')
+  if (flags.colorMode !== undefined)
+    options.colorMode = oneOf(flags.colorMode, COLOR_MODES, 'color-mode')
+  if (flags.quantization !== undefined)
+    options.quantization = oneOf(flags.quantization, QUANTIZE_METHODS, 'quantization')
+  if (flags.layerMode !== undefined)
+    options.layerMode = oneOf(flags.layerMode, LAYER_MODES, 'layer-mode')
+
+  return options
+}
+
+/**
+ * Reads whole standard input, used when no input file is given
+ */
+async function readStdin(): Promise<Buffer> {
+  const chunks: Buffer[] = []
+
+  for await (const chunk of process.stdin)
+    chunks.push(chunk as Buffer)
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Writes SVG to output file, or to stdout when none was given
+ */
+async function output(svg: string, file: string | undefined): Promise<void> {
+  if (file && file !== '-') {
+    await writeFile(file, svg)
+    return
+  }
+
+  process.stdout.write(`${svg}\n`)
+}
+
+/**
+ * Reports error the way potrace does and sets failing exit code
+ */
+function fail(err: unknown): void {
+  console.error(`ts-potrace: ${err instanceof Error ? err.message : String(err)}`)
+  process.exitCode = 1
+}
+
+withTraceFlags(cli.command('[input]', 'Trace image into SVG, reads stdin when input is omitted or -'))
+  .option('-o, --output <file>', 'Write output to this file instead of stdout')
+  .example('ts-potrace input.png -o output.svg')
+  .example('ts-potrace -t 5 -a 1.2 -C "#1e40af" --fillcolor white input.png')
+  .action(async (input: string | undefined, flags: TraceFlags) => {
+    try {
+      const options = toPotraceOptions(flags)
+      const source = input && input !== '-' ? input : await readStdin()
+      const { svg } = await traceAsync(source, options)
+
+      await output(svg, flags.output)
+    }
+    catch (err) {
+      fail(err)
+    }
+  })
+
+withPosterizeFlags(withTraceFlags(cli.command('posterize [input]', 'Trace image into multi-level SVG with Posterizer')))
+  .option('-o, --output <file>', 'Write output to this file instead of stdout')
+  .example('ts-potrace posterize input.png -s 4 -o output.svg')
+  .example('ts-potrace posterize input.png -s 40,85,135,180 --fill-strategy mean')
+  .action(async (input: string | undefined, flags: PosterizeFlags) => {
+    try {
+      const options = toPosterizerOptions(flags)
+      const source = input && input !== '-' ? input : await readStdin()
+      const { svg } = await posterizeAsync(source, options)
+
+      await output(svg, flags.output)
+    }
+    catch (err) {
+      fail(err)
+    }
+  })
+
+withPosterizeFlags(withTraceFlags(cli.command('batch <...inputs>', 'Trace every image matched by globs, directories or file paths')))
+  .option('-o, --output <dir>', 'Write SVGs to this directory, mirroring input paths (default: next to input files)')
+  .option('-j, --concurrency <n>', 'Number of files processed at the same time', { default: 4 })
+  .option('-p, --posterize', 'Use Posterizer instead of Potrace')
+  .example('ts-potrace batch icons -o icons-svg -t 5')
+  .example('ts-potrace batch "photos/**/*.jpg" -p -s 4 -o posterized -j 8')
+  .action(async (inputs: string[], flags: BatchFlags) => {
+    try {
+      const report = await traceBatch(inputs, {
+        outDir: flags.output,
+        concurrency: toNumber(flags.concurrency, 'concurrency'),
+        posterize: flags.posterize,
+        traceOptions: flags.posterize ? toPosterizerOptions(flags) : toPotraceOptions(flags),
+      })
+
+      console.log(formatBatchReport(report))
+
+      if (report.failed > 0) {
+        process.exitCode = 1
+      }
+    }
+    catch (err) {
+      fail(err)
+    }
+  })
+
+cli.help()
+cli.version(version)
+
+try {
+  cli.parse()
+}
+catch (err) {
+  fail(err)
+}
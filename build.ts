@@ -1,7 +1,15 @@
 import { dts } from 'bun-plugin-dtsx'
 
 await Bun.build({
-  entrypoints: ['src/index.ts'],
+  entrypoints: ['src/index.ts', 'src/core.ts'],
   outdir: './dist',
+  splitting: true,
   plugins: [dts()],
 })
+
+await Bun.build({
+  entrypoints: ['bin/cli.ts'],
+  outdir: './dist/bin',
+  target: 'node',
+  packages: 'external',
+})
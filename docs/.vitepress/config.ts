@@ -57,6 +57,7 @@ const sidebar = [
       { text: 'Install', link: '/install' },
       { text: 'Usage', link: '/usage' },
       { text: 'Config', link: '/config' },
+      { text: 'Command Line', link: '/cli' },
     ],
   },
   {
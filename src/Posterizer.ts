@@ -1,6 +1,9 @@
-import type { Buffer } from 'node:buffer'
-import type { PotraceOptions } from './Potrace'
+import type { ImageStats, PixelData, PotraceOptions } from './Potrace'
+import type { Bitmap } from './types/Bitmap'
+import type { Histogram, HistogramMode } from './types/Histogram'
+import type { QuantizeMethod } from './types/Palette'
 import { Potrace } from './Potrace'
+import { Palette } from './types/Palette'
 import * as utils from './utils'
 
 /**
@@ -13,6 +16,17 @@ export type FillStrategy = 'spread' | 'dominant' | 'median' | 'mean'
  */
 export type RangeDistribution = 'auto' | 'equal'
 
+/**
+ * Shades of a single color based on luminance, or layers filled with colors of quantized image
+ */
+export type ColorMode = 'grayscale' | 'color'
+
+/**
+ * Whether each layer covers everything more intense than its threshold and layers overlap,
+ * or only its own band so layers tile the image without overlapping
+ */
+export type LayerMode = 'stacked' | 'exclusive'
+
 /**
  * Color range data
  */
@@ -28,6 +42,12 @@ export interface PosterizerOptions extends PotraceOptions {
   fillStrategy?: FillStrategy
   /** Range distribution 'auto' or 'equal' */
   rangeDistribution?: RangeDistribution
+  /** Trace luminance levels as shades of `color`, or palette colors of the image */
+  colorMode?: ColorMode
+  /** Algorithm building the palette in color mode */
+  quantization?: QuantizeMethod
+  /** Overlapping layers or non-overlapping regions, for cutting plotters and screen printing */
+  layerMode?: LayerMode
 }
 
 /**
@@ -43,10 +63,18 @@ export class Posterizer {
   static readonly FILL_MEAN: FillStrategy = 'mean'
   static readonly RANGES_AUTO: RangeDistribution = 'auto'
   static readonly RANGES_EQUAL: RangeDistribution = 'equal'
+  static readonly COLORMODE_GRAYSCALE: ColorMode = 'grayscale'
+  static readonly COLORMODE_COLOR: ColorMode = 'color'
+  static readonly QUANTIZE_MEDIAN_CUT: QuantizeMethod = Palette.METHOD_MEDIAN_CUT
+  static readonly QUANTIZE_KMEANS: QuantizeMethod = Palette.METHOD_KMEANS
+  static readonly PALETTE_SIZE_AUTO = 8
+  static readonly LAYERS_STACKED: LayerMode = 'stacked'
+  static readonly LAYERS_EXCLUSIVE: LayerMode = 'exclusive'
 
   // Protected members
   protected _potrace: Potrace
   protected _calculatedThreshold: number | null = null
+  protected _palette: Palette | null = null
   protected _params: PosterizerOptions = {
     threshold: Potrace.THRESHOLD_AUTO,
     blackOnWhite: true,
@@ -54,6 +82,9 @@ export class Posterizer {
     background: Potrace.COLOR_TRANSPARENT,
     fillStrategy: Posterizer.FILL_DOMINANT,
     rangeDistribution: Posterizer.RANGES_AUTO,
+    colorMode: Posterizer.COLORMODE_GRAYSCALE,
+    quantization: Posterizer.QUANTIZE_MEDIAN_CUT,
+    layerMode: Posterizer.LAYERS_STACKED,
   }
 
   /**
@@ -180,13 +211,59 @@ export class Posterizer {
    * Get image histogram
    * @returns Histogram instance
    */
-  private _getImageHistogram(): any {
-    // Using type assertion to bypass protected property access
-    const potrace = this._potrace as any
-    if (!potrace._luminanceData) {
-      throw new Error('Image data not available')
+  private _getImageHistogram(): Histogram {
+    return this._potrace.getHistogram()
+  }
+
+  /**
+   * Quantizes the image into palette of `steps` colors, reusing the one calculated for
+   * current image and parameters
+   *
+   * @returns Palette of the image
+   */
+  private _getPalette(): Palette {
+    if (this._palette) {
+      return this._palette
+    }
+
+    const pixels = this._potrace.getColorData()
+    const steps = this._params.steps
+    const size = Array.isArray(steps)
+      ? steps.length
+      : steps === Posterizer.STEPS_AUTO || !steps ? Posterizer.PALETTE_SIZE_AUTO : steps
+
+    this._palette = Palette.quantize(pixels, size, this._params.quantization)
+    return this._palette
+  }
+
+  /**
+   * Creates mask of pixels past given threshold but not past the next one, which is the area
+   * covered by a layer in exclusive mode
+   *
+   * @param threshold - Threshold of the layer
+   * @param nextThreshold - Threshold of the next, more intense layer. The last layer covers everything past its threshold
+   * @returns Bitmap where 1 marks pixels of the layer
+   */
+  private _getBandMask(threshold: number, nextThreshold?: number): Bitmap {
+    const luminance = this._potrace.getLuminanceData()!
+    const blackOnWhite = this._params.blackOnWhite
+    const isPast = (lum: number, value: number): boolean => blackOnWhite ? lum <= value : lum >= value
+
+    return luminance.copy(lum => isPast(lum, threshold) && (nextThreshold === undefined || !isPast(lum, nextThreshold)) ? 1 : 0)
+  }
+
+  /**
+   * Creates mask of pixels covered by any of the layers, automatic background is sampled from the rest
+   *
+   * @returns Bitmap where 1 marks traced pixels
+   */
+  private _getTracedMask(): Bitmap {
+    if (this._params.colorMode === 'color') {
+      const palette = this._getPalette()
+      return palette.mask(palette.colors.map((_, i) => i))
     }
-    return potrace._luminanceData.histogram()
+
+    return this._getBandMask(this._getRanges()[0].value)
   }
 
   /**
@@ -359,74 +436,159 @@ export class Posterizer {
 
   /**
    * Running potrace on the image multiple times with different thresholds and returns an array
-   * of path tags
+   * of path tags. In exclusive layer mode each layer traces only its band between its own and the next threshold
    *
    * @param noFillColor - Whether to include fill color
    * @returns Array of SVG path tags
    */
   private _pathTags(noFillColor?: boolean): string[] {
+    if (this._params.colorMode === 'color') {
+      return this._colorPathTags()
+    }
+
     let ranges = this._getRanges()
     const potrace = this._potrace
     const blackOnWhite = this._params.blackOnWhite
-    const color = this._params.color
+    const exclusive = this._params.layerMode === 'exclusive'
+    let color = this._params.color
 
     if (ranges.length >= 10) {
       ranges = this._addExtraColorStop(ranges)
     }
 
-    potrace.setParameters({ blackOnWhite })
+    // Automatic color is the one of the most intense layer, and the same for all layers
+    if (color === Potrace.COLOR_AUTO && !noFillColor) {
+      color = potrace.sampleColor(this._getBandMask(ranges[ranges.length - 1].value), true) || 'black'
+    }
+
+    // Every layer is traced with its own global threshold, as filled outlines. Parameters changed
+    // on the underlying Potrace instance are restored once all layers are traced
+    const { threshold, color: potraceColor, thresholdMode, mode } = potrace.getParameters()
+    potrace.setParameters({ blackOnWhite, thresholdMode: Potrace.THRESHOLD_GLOBAL, mode: Potrace.MODE_OUTLINE })
 
     let actualPrevLayersOpacity = 0
 
-    return ranges.map((colorStop) => {
-      const thisLayerOpacity = colorStop.colorIntensity
+    try {
+      return ranges.map((colorStop, index) => {
+        const thisLayerOpacity = colorStop.colorIntensity
 
-      if (thisLayerOpacity === 0) {
-        return ''
-      }
+        if (thisLayerOpacity === 0) {
+          return ''
+        }
 
-      // Calculate the proper opacity for this layer
-      let calculatedOpacity = (!actualPrevLayersOpacity || thisLayerOpacity === 1)
-        ? thisLayerOpacity
-        : ((actualPrevLayersOpacity - thisLayerOpacity) / (actualPrevLayersOpacity - 1))
+        // Calculate the proper opacity for this layer, exclusive layers are not composited over each other
+        let calculatedOpacity = (exclusive || !actualPrevLayersOpacity || thisLayerOpacity === 1)
+          ? thisLayerOpacity
+          : ((actualPrevLayersOpacity - thisLayerOpacity) / (actualPrevLayersOpacity - 1))
 
-      calculatedOpacity = utils.clamp(Number.parseFloat(calculatedOpacity.toFixed(3)), 0, 1)
-      actualPrevLayersOpacity = actualPrevLayersOpacity + (1 - actualPrevLayersOpacity) * calculatedOpacity
+        calculatedOpacity = utils.clamp(Number.parseFloat(calculatedOpacity.toFixed(3)), 0, 1)
+        actualPrevLayersOpacity = actualPrevLayersOpacity + (1 - actualPrevLayersOpacity) * calculatedOpacity
 
-      potrace.setParameters({
-        threshold: colorStop.value,
-        color: noFillColor ? '' : color,
-      })
+        let element: string
 
-      let element = potrace.getPathTag()
-      element = utils.setHtmlAttr(element, 'fill-opacity', calculatedOpacity.toFixed(3))
+        if (exclusive) {
+          const mask = this._getBandMask(colorStop.value, ranges[index + 1]?.value)
+          element = Potrace.fromBitmap(mask, { ...potrace.getParameters(), color: noFillColor ? '' : color }).getPathTag()
+        }
+        else {
+          potrace.setParameters({
+            threshold: colorStop.value,
+            color: noFillColor ? '' : color,
+          })
 
-      if (noFillColor) {
-        element = utils.setHtmlAttr(element, 'fill', '')
+          element = potrace.getPathTag()
+        }
+
+        element = utils.setHtmlAttr(element, 'fill-opacity', calculatedOpacity.toFixed(3))
+
+        if (noFillColor) {
+          element = utils.setHtmlAttr(element, 'fill', '')
+        }
+
+        const canBeIgnored = calculatedOpacity === 0 || element.includes(' d=""')
+
+        return canBeIgnored ? '' : element
+      })
+    }
+    finally {
+      potrace.setParameters({ threshold, color: potraceColor, thresholdMode, mode })
+    }
+  }
+
+  /**
+   * Traces one layer per palette color, from the color covering the most pixels to the one covering the least.
+   * Layers are opaque and each stacked one also covers areas of layers above it, so there are no gaps
+   * between neighbouring colors. Exclusive layers cover only pixels of their own color
+   *
+   * @returns Array of SVG path tags
+   */
+  private _colorPathTags(): string[] {
+    const palette = this._getPalette()
+    // Layers share tracing and output size parameters of the underlying Potrace instance, and are filled outlines
+    const params: PotraceOptions = { ...this._potrace.getParameters(), mode: Potrace.MODE_OUTLINE }
+    const exclusive = this._params.layerMode === 'exclusive'
+    const opaque = !palette.indices.includes(-1)
+
+    return palette.colors.map((color, index) => {
+      // Bottom stacked layer of an opaque image covers all of it, but not the area around it left by scaleMode
+      if (index === 0 && opaque && !exclusive) {
+        const { scale, offset } = this._potrace.getOutputTransform()
+
+        return `<rect x="${utils.fixed(offset.x)}" y="${utils.fixed(offset.y)}" `
+          + `width="${utils.fixed(palette.width * scale.x)}" height="${utils.fixed(palette.height * scale.y)}" `
+          + `fill="${utils.toHexColor(...color)}" />`
       }
 
-      const canBeIgnored = calculatedOpacity === 0 || element.includes(' d=""')
+      const layers = exclusive ? index : palette.colors.map((_, i) => i).slice(index)
+      const potrace = Potrace.fromBitmap(palette.mask(layers), {
+        ...params,
+        color: utils.toHexColor(...color),
+      })
+
+      const element = potrace.getPathTag()
 
-      return canBeIgnored ? '' : element
+      return element.includes(' d=""') ? '' : element
     })
   }
 
   /**
    * Loads image from file, Buffer or Jimp instance
    *
+   * When no callback is given a Promise is returned instead
+   *
    * @param source - Image source
    * @param callback - Completion callback
    */
-  loadImage(source: string | Buffer | any, callback: (err?: Error) => void): void {
-    this._potrace.loadImage(source, (err?: Error) => {
-      if (err) {
-        callback.call(this, err)
-        return
-      }
-
+  loadImage(source: string | Uint8Array | any): Promise<void>
+  loadImage(source: string | Uint8Array | any, callback: (err?: Error) => void): void
+  loadImage(source: string | Uint8Array | any, callback?: (err?: Error) => void): Promise<void> | void {
+    const loading = this._potrace.loadImage(source).then(() => {
       this._calculatedThreshold = null
-      callback.call(this)
+      this._palette = null
     })
+
+    if (typeof callback !== 'function') {
+      return loading
+    }
+
+    // Call callback with this context, outside of the promise chain so errors thrown by it are not swallowed
+    loading.then(
+      () => queueMicrotask(() => callback.call(this)),
+      (err: Error) => queueMicrotask(() => callback.call(this, err)),
+    )
+  }
+
+  /**
+   * Loads image from raw pixel data, such as canvas ImageData or grayscale typed array
+   *
+   * @param pixels - Pixel data
+   * @returns this instance for chaining
+   */
+  loadPixels(pixels: PixelData): Posterizer {
+    this._potrace.loadPixels(pixels)
+    this._calculatedThreshold = null
+    this._palette = null
+    return this
   }
 
   /**
@@ -449,6 +611,18 @@ export class Posterizer {
       throw new Error('Bad \'steps\' value')
     }
 
+    if (params.colorMode && ![Posterizer.COLORMODE_GRAYSCALE, Posterizer.COLORMODE_COLOR].includes(params.colorMode)) {
+      throw new Error('Bad \'colorMode\' value')
+    }
+
+    if (params.layerMode && ![Posterizer.LAYERS_STACKED, Posterizer.LAYERS_EXCLUSIVE].includes(params.layerMode)) {
+      throw new Error('Bad \'layerMode\' value')
+    }
+
+    if (params.quantization && ![Posterizer.QUANTIZE_MEDIAN_CUT, Posterizer.QUANTIZE_KMEANS].includes(params.quantization)) {
+      throw new Error('Bad \'quantization\' value')
+    }
+
     // Apply Posterizer-specific parameters
     for (const key in this._params) {
       if (Object.prototype.hasOwnProperty.call(this._params, key)
@@ -459,9 +633,27 @@ export class Posterizer {
     }
 
     this._calculatedThreshold = null
+    this._palette = null
     return this
   }
 
+  /**
+   * Returns histogram of loaded image, see {@link Potrace.getHistogram}
+   *
+   * @param mode - Color channel or luminance formula
+   * @returns Histogram instance
+   */
+  getHistogram(mode?: HistogramMode): Histogram {
+    return this._potrace.getHistogram(mode)
+  }
+
+  /**
+   * Returns statistics of luminance and every channel of loaded image
+   */
+  getImageStats(): ImageStats {
+    return this._potrace.getImageStats()
+  }
+
   /**
    * Returns image as <symbol> tag. Always has viewBox specified
    *
@@ -469,14 +661,12 @@ export class Posterizer {
    * @returns SVG symbol element
    */
   getSymbol(id: string): string {
-    // Using type assertion to bypass protected property access
-    const potrace = this._potrace as any
-    if (!potrace._luminanceData) {
+    const potrace = this._potrace
+    if (!potrace.getLuminanceData()) {
       throw new Error('Image data not available')
     }
 
-    const width = potrace._luminanceData.width
-    const height = potrace._luminanceData.height
+    const { width, height } = potrace.getOutputTransform()
     const paths = this._pathTags(true)
 
     return `<symbol viewBox="0 0 ${width} ${height}" id="${id}">${
@@ -489,14 +679,12 @@ export class Posterizer {
    * @returns SVG image content
    */
   getSVG(): string {
-    // Using type assertion to bypass protected property access
-    const potrace = this._potrace as any
-    if (!potrace._luminanceData) {
+    const potrace = this._potrace
+    if (!potrace.getLuminanceData()) {
       throw new Error('Image data not available')
     }
 
-    const width = potrace._luminanceData.width
-    const height = potrace._luminanceData.height
+    const { width, height } = potrace.getOutputTransform()
     const tags = this._pathTags(false)
 
     let svg = '<svg xmlns="http://www.w3.org/2000/svg" '
@@ -505,8 +693,11 @@ export class Posterizer {
       + `viewBox="0 0 ${width} ${height}" `
       + 'version="1.1">\n\t'
 
-    if (this._params.background !== Potrace.COLOR_TRANSPARENT) {
-      svg += `<rect x="0" y="0" width="100%" height="100%" fill="${this._params.background}" />\n\t`
+    const backgroundTag = potrace.getBackgroundTag(
+      this._params.background === Potrace.COLOR_AUTO ? this._getTracedMask() : undefined,
+    )
+    if (backgroundTag) {
+      svg += `${backgroundTag}\n\t`
     }
 
     svg += `${tags.join('\n\t')}\n</svg>`
@@ -525,6 +716,14 @@ export type PosterizeCallback = (
   instance?: Posterizer
 ) => void
 
+/**
+ * Result of posterizeAsync method
+ */
+export interface PosterizeResult {
+  svg: string
+  instance: Posterizer
+}
+
 /**
  * Wrapper for Potrace that simplifies use down to one function call
  *
@@ -533,16 +732,16 @@ export type PosterizeCallback = (
  * @param cb - Callback function
  */
 export function posterize(
-  file: string | Buffer | any, // Using 'any' for Jimp to avoid type reference issues
+  file: string | Uint8Array | any, // Using 'any' for Jimp to avoid type reference issues
   options: PosterizerOptions | PosterizeCallback,
   cb?: PosterizeCallback,
 ): void {
-  if (arguments.length === 2) {
-    cb = options as PosterizeCallback
+  if (typeof options === 'function') {
+    cb = options
     options = {}
   }
 
-  const posterizer = new Posterizer(options as PosterizerOptions)
+  const posterizer = new Posterizer(options)
 
   posterizer.loadImage(file, (err) => {
     if (err) {
@@ -552,3 +751,21 @@ export function posterize(
     (cb as PosterizeCallback).call(posterizer, null, posterizer.getSVG(), posterizer)
   })
 }
+
+/**
+ * Promise-based version of {@link posterize}
+ *
+ * @param file - Source image, file path or Jimp instance
+ * @param options - Optional Posterizer options
+ * @returns Promise resolving to SVG string and the Posterizer instance used
+ */
+export async function posterizeAsync(
+  file: string | Uint8Array | any, // Using 'any' for Jimp to avoid type reference issues
+  options?: PosterizerOptions,
+): Promise<PosterizeResult> {
+  const posterizer = new Posterizer(options)
+
+  await posterizer.loadImage(file)
+
+  return { svg: posterizer.getSVG(), instance: posterizer }
+}
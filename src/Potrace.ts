@@ -1,8 +1,11 @@
-import type { Buffer } from 'node:buffer'
-import { Jimp } from 'jimp'
+import type { AdaptiveThresholdMethod, BitmapFilter, BitmapFilterOptions, MorphologyOperation, MorphologyOptions } from './types/Bitmap'
+import type { HistogramMode, HistogramStats, RGBAImage, ThresholdMethod } from './types/Histogram'
+import type { LuminanceMode, PathSegment } from './utils'
 import { Bitmap } from './types/Bitmap'
 import { Curve } from './types/Curve'
+import { Histogram } from './types/Histogram'
 import { Opti } from './types/Opti'
+import { Palette } from './types/Palette'
 import { Path } from './types/Path'
 import { Point } from './types/Point'
 import { Sum } from './types/Sum'
@@ -10,16 +13,28 @@ import * as utils from './utils'
 
 export interface PotraceOptions {
   turnPolicy?: TurnPolicy
+  connectivity?: Connectivity | null
   turdSize?: number
   alphaMax?: number
   optCurve?: boolean
   optTolerance?: number
   threshold?: number
+  thresholdMode?: ThresholdMode
+  thresholdMethod?: ThresholdMethod
+  percentile?: number
+  windowSize?: number
+  k?: number | null
   blackOnWhite?: boolean
   color?: string
   background?: string
   width?: number | null
   height?: number | null
+  scaleMode?: ScaleMode
+  alphaMode?: AlphaMode
+  luminanceMode?: LuminanceMode
+  preprocess?: PreprocessFilter[]
+  morphology?: MorphologyStep[]
+  mode?: TraceMode
 }
 
 export type TurnPolicy =
@@ -30,24 +45,235 @@ export type TurnPolicy =
   | 'minority'
   | 'majority'
 
+/**
+ * Whether traced pixels touching only diagonally belong to the same shape (8) or not (4)
+ */
+export type Connectivity = 4 | 8
+
+/**
+ * Single global threshold or one of local (adaptive) thresholding formulas
+ */
+export type ThresholdMode = 'global' | AdaptiveThresholdMethod
+
+/**
+ * Filter applied to luminance before thresholding, by name with default parameters or with options
+ */
+export type PreprocessFilter = BitmapFilter | BitmapFilterOptions
+
+/**
+ * Operation applied to binarized image before path decomposition, by name with a 3x3 square
+ * structuring element or with options
+ */
+export type MorphologyStep = MorphologyOperation | MorphologyOptions
+
+/**
+ * Trace outlines of shapes as filled paths, or their skeletons as stroked lines
+ */
+export type TraceMode = 'outline' | 'centerline'
+
+/**
+ * How traced image is scaled when both width and height are specified
+ */
+export type ScaleMode = 'fit' | 'fill' | 'stretch'
+
+/**
+ * How transparent pixels are converted to luminance: composited over white, black
+ * or a custom hex color, or alpha channel is used as ink (opaque pixels are dark)
+ */
+export type AlphaMode = 'white' | 'black' | 'alpha' | `#${string}`
+
+/**
+ * Raw pixel data, row by row with interleaved channels. Compatible with canvas ImageData.
+ *
+ * Number of channels defaults to 4 (RGBA), other supported layouts are
+ * 1 (grayscale), 2 (grayscale with alpha) and 3 (RGB).
+ */
+export interface PixelData {
+  data: ArrayLike<number>
+  width: number
+  height: number
+  channels?: 1 | 2 | 3 | 4
+}
+
+/**
+ * Reads encoded image (file path or buffer) into RGBA pixel data
+ */
+export type ImageReader = (source: string | Uint8Array | any) => Promise<PixelData>
+
+// Reader used by loadImage for sources other than Jimp instances
+let imageReader: ImageReader | null = null
+
+/**
+ * Output dimensions and transformation from source pixel space into them
+ */
+export interface OutputTransform {
+  width: number
+  height: number
+  scale: { x: number, y: number }
+  offset: { x: number, y: number }
+}
+
+/**
+ * Node of path hierarchy returned by getPathTree
+ */
+export interface PathNode {
+  /** Traced path, with curve available after processing */
+  path: Path
+  /** Outlines enclose traced areas, holes are cut out of outlines they are nested in */
+  type: 'outline' | 'hole'
+  /** Innermost path enclosing this one, null for top-level outlines */
+  parent: PathNode | null
+  /** Paths directly enclosed by this one */
+  children: PathNode[]
+}
+
+/**
+ * Traced path in output coordinates
+ */
+export interface PotracePath {
+  /** `+` for outlines, `-` for holes */
+  sign: '+' | '-'
+  /** Segments in drawing order, the path starts at the end point of the last one */
+  segments: PathSegment[]
+  /** Bounding box of the curves */
+  bbox: { x: number, y: number, width: number, height: number }
+  /** Area enclosed by the traced pixel outline, in output units, 0 for centerlines */
+  area: number
+  /** Start point of open centerlines, which do not end where they begin */
+  start?: Point
+}
+
+/**
+ * Structured tracing result that string renderers are built on
+ */
+export interface PotraceResult {
+  /** Output image width */
+  width: number
+  /** Output image height */
+  height: number
+  paths: PotracePath[]
+  /** Estimated width of traced strokes in centerline mode */
+  strokeWidth?: number
+}
+
+/**
+ * Statistics of loaded image used to pick thresholds and palettes
+ */
+export interface ImageStats {
+  width: number
+  height: number
+  /** Luminance that is thresholded, with alphaMode and luminanceMode applied */
+  luminance: HistogramStats
+  r: HistogramStats
+  g: HistogramStats
+  b: HistogramStats
+  alpha: HistogramStats
+  /** Level picked by automatic thresholding with current thresholdMethod and percentile */
+  threshold: number
+}
+
+/**
+ * Stages of processing pipeline, each one working on results of the previous ones
+ */
+type ProcessingStage = 'decomposition' | 'polygon' | 'smoothing' | 'optimization'
+
+const PROCESSING_STAGES: ProcessingStage[] = ['decomposition', 'polygon', 'smoothing', 'optimization']
+
+// Largest distance in pixels between a centerline and its simplified polygon
+const CENTERLINE_TOLERANCE = 1
+
+/**
+ * Simplifies polyline with Douglas-Peucker algorithm: keeps both end points and, recursively,
+ * the point farthest from the line between them as long as it is farther than tolerance
+ *
+ * @returns Indexes of kept points in order, from first to last
+ */
+function simplifyPolyline(points: Point[], first: number, last: number, tolerance: number): number[] {
+  const a = points[first]
+  const b = points[last]
+  const length = Math.hypot(b.x - a.x, b.y - a.y)
+  let farthest = -1
+  let maxDistance = tolerance
+
+  for (let i = first + 1; i < last; i++) {
+    const p = points[i]
+    const distance = length
+      ? Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length
+      : Math.hypot(p.x - a.x, p.y - a.y)
+
+    if (distance > maxDistance) {
+      farthest = i
+      maxDistance = distance
+    }
+  }
+
+  if (farthest === -1) {
+    return first === last ? [first] : [first, last]
+  }
+
+  return [
+    ...simplifyPolyline(points, first, farthest, tolerance),
+    ...simplifyPolyline(points, farthest, last, tolerance).slice(1),
+  ]
+}
+
 export class Potrace {
   // Static constants
   static readonly COLOR_AUTO = 'auto'
   static readonly COLOR_TRANSPARENT = 'transparent'
   static readonly THRESHOLD_AUTO = -1
+  static readonly THRESHOLD_GLOBAL: ThresholdMode = 'global'
+  static readonly THRESHOLD_SAUVOLA: ThresholdMode = 'sauvola'
+  static readonly THRESHOLD_NIBLACK: ThresholdMode = 'niblack'
+  static readonly THRESHOLD_BRADLEY: ThresholdMode = 'bradley'
   static readonly TURNPOLICY_BLACK = 'black'
   static readonly TURNPOLICY_WHITE = 'white'
   static readonly TURNPOLICY_LEFT = 'left'
   static readonly TURNPOLICY_RIGHT = 'right'
   static readonly TURNPOLICY_MINORITY = 'minority'
   static readonly TURNPOLICY_MAJORITY = 'majority'
+  static readonly SCALE_FIT: ScaleMode = 'fit'
+  static readonly SCALE_FILL: ScaleMode = 'fill'
+  static readonly SCALE_STRETCH: ScaleMode = 'stretch'
+  static readonly ALPHA_WHITE: AlphaMode = 'white'
+  static readonly ALPHA_BLACK: AlphaMode = 'black'
+  static readonly ALPHA_CHANNEL: AlphaMode = 'alpha'
+  static readonly LUMINANCE_BT601: LuminanceMode = 'bt601'
+  static readonly LUMINANCE_BT709: LuminanceMode = 'bt709'
+  static readonly LUMINANCE_AVERAGE: LuminanceMode = 'average'
+  static readonly LUMINANCE_LIGHTNESS: LuminanceMode = 'lightness'
+  static readonly LUMINANCE_R: LuminanceMode = 'r'
+  static readonly LUMINANCE_G: LuminanceMode = 'g'
+  static readonly LUMINANCE_B: LuminanceMode = 'b'
+  static readonly LUMINANCE_ALPHA: LuminanceMode = 'alpha'
+  static readonly FILTER_GAUSSIAN: BitmapFilter = 'gaussian'
+  static readonly FILTER_MEDIAN: BitmapFilter = 'median'
+  static readonly FILTER_BILATERAL: BitmapFilter = 'bilateral'
+  static readonly FILTER_UNSHARP: BitmapFilter = 'unsharp'
+  static readonly MORPHOLOGY_ERODE: MorphologyOperation = 'erode'
+  static readonly MORPHOLOGY_DILATE: MorphologyOperation = 'dilate'
+  static readonly MORPHOLOGY_OPEN: MorphologyOperation = 'open'
+  static readonly MORPHOLOGY_CLOSE: MorphologyOperation = 'close'
+  static readonly MODE_OUTLINE: TraceMode = 'outline'
+  static readonly MODE_CENTERLINE: TraceMode = 'centerline'
 
   // Protected members
+  protected _imageData: PixelData | null = null
   protected _luminanceData: Bitmap | null = null
+  protected _binaryMask: Bitmap | null = null
+  // Channel histograms of source pixels, they only change when another image is loaded
+  protected _channelHistograms: Partial<Record<HistogramMode, Histogram>> = {}
   protected _pathlist: Path[] = []
   protected _imageLoadingIdentifier: number | null = null
   protected _imageLoaded = false
-  protected _processed = false
+  // Number of leading processing stages with up to date results
+  protected _processedStages = 0
+  // Results derived from binarized image, dropped along with decomposition results
+  protected _blackMap: Bitmap | null = null
+  protected _colorData: PixelData | null = null
+  protected _autoColors: { fill?: string | null, background?: string | null } = {}
+  // Width of traced strokes in source pixels, estimated during centerline decomposition
+  protected _strokeWidth = 1
   protected _params: Required<PotraceOptions>
 
   // Supported turn policy values for validation
@@ -60,6 +286,65 @@ export class Potrace {
     Potrace.TURNPOLICY_MAJORITY,
   ]
 
+  // Supported threshold mode values for validation
+  private static readonly SUPPORTED_THRESHOLDMODE_VALUES: ThresholdMode[] = [
+    Potrace.THRESHOLD_GLOBAL,
+    Potrace.THRESHOLD_SAUVOLA,
+    Potrace.THRESHOLD_NIBLACK,
+    Potrace.THRESHOLD_BRADLEY,
+  ]
+
+  // Supported automatic threshold method values for validation
+  private static readonly SUPPORTED_THRESHOLDMETHOD_VALUES: ThresholdMethod[] = [
+    Histogram.THRESHOLD_OTSU,
+    Histogram.THRESHOLD_KAPUR,
+    Histogram.THRESHOLD_TRIANGLE,
+    Histogram.THRESHOLD_ISODATA,
+    Histogram.THRESHOLD_MINIMUM,
+    Histogram.THRESHOLD_PERCENTILE,
+  ]
+
+  // Supported luminance mode values for validation
+  private static readonly SUPPORTED_LUMINANCEMODE_VALUES: LuminanceMode[] = [
+    Potrace.LUMINANCE_BT601,
+    Potrace.LUMINANCE_BT709,
+    Potrace.LUMINANCE_AVERAGE,
+    Potrace.LUMINANCE_LIGHTNESS,
+    Potrace.LUMINANCE_R,
+    Potrace.LUMINANCE_G,
+    Potrace.LUMINANCE_B,
+    Potrace.LUMINANCE_ALPHA,
+  ]
+
+  // Supported preprocess filter values for validation
+  private static readonly SUPPORTED_FILTER_VALUES: BitmapFilter[] = [
+    Potrace.FILTER_GAUSSIAN,
+    Potrace.FILTER_MEDIAN,
+    Potrace.FILTER_BILATERAL,
+    Potrace.FILTER_UNSHARP,
+  ]
+
+  // Supported morphology operation values for validation
+  private static readonly SUPPORTED_MORPHOLOGY_VALUES: MorphologyOperation[] = [
+    Potrace.MORPHOLOGY_ERODE,
+    Potrace.MORPHOLOGY_DILATE,
+    Potrace.MORPHOLOGY_OPEN,
+    Potrace.MORPHOLOGY_CLOSE,
+  ]
+
+  // Supported trace mode values for validation
+  private static readonly SUPPORTED_MODE_VALUES: TraceMode[] = [
+    Potrace.MODE_OUTLINE,
+    Potrace.MODE_CENTERLINE,
+  ]
+
+  // Supported scale mode values for validation
+  private static readonly SUPPORTED_SCALEMODE_VALUES: ScaleMode[] = [
+    Potrace.SCALE_FIT,
+    Potrace.SCALE_FILL,
+    Potrace.SCALE_STRETCH,
+  ]
+
   /**
    * Creates a new Potrace instance
    * @param options - Configuration options
@@ -67,16 +352,28 @@ export class Potrace {
   constructor(options?: PotraceOptions) {
     this._params = {
       turnPolicy: Potrace.TURNPOLICY_MINORITY,
+      connectivity: null,
       turdSize: 2,
       alphaMax: 1,
       optCurve: true,
       optTolerance: 0.2,
       threshold: Potrace.THRESHOLD_AUTO,
+      thresholdMode: Potrace.THRESHOLD_GLOBAL,
+      thresholdMethod: Histogram.THRESHOLD_OTSU,
+      percentile: 50,
+      windowSize: 15,
+      k: null,
       blackOnWhite: true,
       color: Potrace.COLOR_AUTO,
       background: Potrace.COLOR_TRANSPARENT,
       width: null,
       height: null,
+      scaleMode: Potrace.SCALE_FIT,
+      alphaMode: Potrace.ALPHA_WHITE,
+      luminanceMode: utils.DEFAULT_LUMINANCE_MODE,
+      preprocess: [],
+      morphology: [],
+      mode: Potrace.MODE_OUTLINE,
     }
 
     if (options) {
@@ -92,44 +389,92 @@ export class Potrace {
    */
   setParameters(_params: PotraceOptions): Potrace {
     const params = _params || {}
-    let needsReprocessing = false
 
-    // Only apply known parameters
-    if (typeof params.turnPolicy !== 'undefined') {
+    // Validate new values merged with current ones before applying any of them, so that rejected values
+    // are never stored. Unsupported turn policies are ignored rather than rejected
+    this._validateParameters({
+      ...this._params,
+      ...params,
+      turnPolicy: this._params.turnPolicy,
+    })
+
+    // Only apply known parameters, dropping cached results of stages that depend on changed ones
+    if (typeof params.turnPolicy !== 'undefined' && params.turnPolicy !== this._params.turnPolicy) {
       if (Potrace.SUPPORTED_TURNPOLICY_VALUES.includes(params.turnPolicy)) {
         this._params.turnPolicy = params.turnPolicy
-        needsReprocessing = true
+        this._invalidate('decomposition')
       }
     }
 
-    if (typeof params.turdSize !== 'undefined') {
+    if (typeof params.connectivity !== 'undefined' && params.connectivity !== this._params.connectivity) {
+      this._params.connectivity = params.connectivity
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.turdSize !== 'undefined' && params.turdSize !== this._params.turdSize) {
       this._params.turdSize = params.turdSize
-      needsReprocessing = true
+      this._invalidate('decomposition')
     }
 
-    if (typeof params.alphaMax !== 'undefined') {
+    if (typeof params.alphaMax !== 'undefined' && params.alphaMax !== this._params.alphaMax) {
       this._params.alphaMax = params.alphaMax
-      needsReprocessing = true
+      this._invalidate('smoothing')
     }
 
-    if (typeof params.optCurve !== 'undefined') {
+    if (typeof params.optCurve !== 'undefined' && params.optCurve !== this._params.optCurve) {
       this._params.optCurve = params.optCurve
-      needsReprocessing = true
+      this._invalidate('optimization')
     }
 
-    if (typeof params.optTolerance !== 'undefined') {
+    if (typeof params.optTolerance !== 'undefined' && params.optTolerance !== this._params.optTolerance) {
       this._params.optTolerance = params.optTolerance
-      needsReprocessing = true
+      this._invalidate('optimization')
     }
 
-    if (typeof params.threshold !== 'undefined') {
+    if (typeof params.threshold !== 'undefined' && params.threshold !== this._params.threshold) {
       this._params.threshold = params.threshold
-      needsReprocessing = true
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.thresholdMode !== 'undefined' && params.thresholdMode !== this._params.thresholdMode) {
+      this._params.thresholdMode = params.thresholdMode
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.thresholdMethod !== 'undefined' && params.thresholdMethod !== this._params.thresholdMethod) {
+      this._params.thresholdMethod = params.thresholdMethod
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.percentile !== 'undefined' && params.percentile !== this._params.percentile) {
+      this._params.percentile = params.percentile
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.windowSize !== 'undefined' && params.windowSize !== this._params.windowSize) {
+      this._params.windowSize = params.windowSize
+      this._invalidate('decomposition')
     }
 
-    if (typeof params.blackOnWhite !== 'undefined') {
+    if (typeof params.k !== 'undefined' && params.k !== this._params.k) {
+      this._params.k = params.k
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.blackOnWhite !== 'undefined' && params.blackOnWhite !== this._params.blackOnWhite) {
       this._params.blackOnWhite = params.blackOnWhite
-      needsReprocessing = true
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.morphology !== 'undefined'
+      && JSON.stringify(params.morphology) !== JSON.stringify(this._params.morphology)) {
+      this._params.morphology = params.morphology
+      this._invalidate('decomposition')
+    }
+
+    if (typeof params.mode !== 'undefined' && params.mode !== this._params.mode) {
+      this._params.mode = params.mode
+      this._invalidate('decomposition')
     }
 
     if (typeof params.color !== 'undefined') {
@@ -140,7 +485,35 @@ export class Potrace {
       this._params.background = params.background
     }
 
-    // Only width and height can be updated
+    let needsLuminanceUpdate = false
+
+    if (typeof params.alphaMode !== 'undefined' && params.alphaMode !== this._params.alphaMode) {
+      this._params.alphaMode = params.alphaMode
+      needsLuminanceUpdate = true
+    }
+
+    if (typeof params.luminanceMode !== 'undefined' && params.luminanceMode !== this._params.luminanceMode) {
+      this._params.luminanceMode = params.luminanceMode
+      needsLuminanceUpdate = true
+    }
+
+    // Filters are compared by value, as options are usually passed as new array every time
+    if (typeof params.preprocess !== 'undefined'
+      && JSON.stringify(params.preprocess) !== JSON.stringify(this._params.preprocess)) {
+      this._params.preprocess = params.preprocess
+      needsLuminanceUpdate = true
+    }
+
+    // Luminance depends on how transparency and color channels are handled, and on preprocess filters
+    if (needsLuminanceUpdate) {
+      if (this._imageLoaded && this._imageData) {
+        this._luminanceData = this._calcLuminanceData()
+      }
+
+      this._invalidate('decomposition')
+    }
+
+    // Output size only affects rendering, no need to reprocess
     if (typeof params.width !== 'undefined') {
       this._params.width = params.width
     }
@@ -149,155 +522,424 @@ export class Potrace {
       this._params.height = params.height
     }
 
-    // Reset processed flag if any parameter was changed that affects the output
-    if (needsReprocessing) {
-      this._processed = false
+    if (typeof params.scaleMode !== 'undefined') {
+      this._params.scaleMode = params.scaleMode
     }
 
-    // Validate some parameters
-    this._validateParameters(this._params)
-
     return this
   }
 
+  /**
+   * Returns copy of current parameters, with defaults filled in
+   */
+  getParameters(): Required<PotraceOptions> {
+    return { ...this._params }
+  }
+
+  /**
+   * Returns luminance bitmap that thresholding works with, or null if no image was loaded
+   * or a binary mask was loaded instead
+   *
+   * @internal
+   */
+  getLuminanceData(): Bitmap | null {
+    return this._luminanceData
+  }
+
   /**
    * Loads image from file, Buffer or Jimp instance
    *
+   * When no callback is given a Promise is returned instead
+   *
    * @param source - Image source
    * @param callback - Completion callback
    */
-  loadImage(source: string | Buffer | any, callback: (err?: Error) => void): void {
+  loadImage(source: string | Uint8Array | any): Promise<void>
+  loadImage(source: string | Uint8Array | any, callback: (err?: Error) => void): void
+  loadImage(source: string | Uint8Array | any, callback?: (err?: Error) => void): Promise<void> | void {
+    const loading = this._loadImage(source)
+
+    if (typeof callback !== 'function') {
+      return loading
+    }
+
+    // Call callback with this context, outside of the promise chain so errors thrown by it are not swallowed
+    loading.then(
+      () => queueMicrotask(() => callback.call(this)),
+      (err: Error) => queueMicrotask(() => callback.call(this, err)),
+    )
+  }
+
+  /**
+   * Sets function used by loadImage to read file paths and buffers.
+   * The main entry point registers a Jimp based reader, the core entry point has none.
+   *
+   * @param reader - Image reader or null to remove it
+   */
+  static setImageReader(reader: ImageReader | null): void {
+    imageReader = reader
+  }
+
+  /**
+   * Reads the source (unless it is already a Jimp instance) and stores its luminance data
+   *
+   * @param source - Image source
+   * @private
+   */
+  private async _loadImage(source: string | Uint8Array | any): Promise<void> {
     // Reset state
     this._imageLoaded = false
-    this._processed = false
+    this._invalidate('decomposition')
     this._imageLoadingIdentifier = Date.now()
 
-    // Source is already a Jimp instance
-    if (source && typeof source === 'object' && 'bitmap' in source) {
-      try {
-        // Process the Jimp instance directly
-        const image = source
-        const w = image.bitmap.width
-        const h = image.bitmap.height
-        const bitmap = new Bitmap(w, h)
-
-        // For each pixel, calculate luminance value
-        for (let x = 0; x < w; x++) {
-          for (let y = 0; y < h; y++) {
-            // Get rgba color from Jimp
-            const idx = (y * w + x) << 2
-            const r = image.bitmap.data[idx]
-            const g = image.bitmap.data[idx + 1]
-            const b = image.bitmap.data[idx + 2]
-
-            // ITU-R BT.601 luma coefficients
-            const luminance = Math.floor(0.299 * r + 0.587 * g + 0.114 * b)
-            bitmap.data[y * w + x] = luminance
-          }
-        }
-
-        // Store the bitmap and mark as loaded
-        this._luminanceData = bitmap
-        this._imageLoaded = true
-        this._imageLoadingIdentifier = null
-
-        // Call callback with this context
-        callback.call(this)
+    try {
+      // Source is already a Jimp instance, otherwise use image reader for file path or buffer
+      if (source && typeof source === 'object' && 'bitmap' in source) {
+        this._setImageData({
+          data: source.bitmap.data,
+          width: source.bitmap.width,
+          height: source.bitmap.height,
+          channels: 4,
+        })
+      }
+      else if (imageReader) {
+        this._setImageData(await imageReader(source))
       }
-      catch (e: any) {
-        this._imageLoadingIdentifier = null
-        callback.call(this, e)
+      else {
+        throw new Error('No image reader available, use loadPixels() or register one with Potrace.setImageReader()')
       }
     }
-    else {
-      // For file path or buffer, use Jimp.read
-      try {
-        // Use type assertion to avoid TS error with Jimp.read
-        (Jimp.read as any)(source)
-          .then((image: any) => {
-            try {
-              const w = image.bitmap.width
-              const h = image.bitmap.height
-              const bitmap = new Bitmap(w, h)
-
-              // For each pixel, calculate luminance value
-              for (let x = 0; x < w; x++) {
-                for (let y = 0; y < h; y++) {
-                  // Get rgba color from Jimp
-                  const idx = (y * w + x) << 2
-                  const r = image.bitmap.data[idx]
-                  const g = image.bitmap.data[idx + 1]
-                  const b = image.bitmap.data[idx + 2]
-
-                  // ITU-R BT.601 luma coefficients
-                  const luminance = Math.floor(0.299 * r + 0.587 * g + 0.114 * b)
-                  bitmap.data[y * w + x] = luminance
-                }
-              }
-
-              // Store the bitmap and mark as loaded
-              this._luminanceData = bitmap
-              this._imageLoaded = true
-              this._imageLoadingIdentifier = null
-
-              // Call callback with this context
-              callback.call(this)
-            }
-            catch (e: any) {
-              this._imageLoadingIdentifier = null
-              callback.call(this, e)
-            }
-          })
-          .catch((err: Error) => {
-            this._imageLoadingIdentifier = null
-            callback.call(this, err)
-          })
-      }
-      catch (e: any) {
-        this._imageLoadingIdentifier = null
-        callback.call(this, e)
+    finally {
+      this._imageLoadingIdentifier = null
+    }
+  }
+
+  /**
+   * Loads image from raw pixel data, such as canvas ImageData or grayscale typed array
+   *
+   * @param pixels - Pixel data
+   * @returns this instance for chaining
+   */
+  loadPixels(pixels: PixelData): Potrace {
+    // Reset state
+    this._imageLoaded = false
+    this._invalidate('decomposition')
+
+    this._setImageData(pixels)
+
+    return this
+  }
+
+  /**
+   * Loads binary mask that is traced as is, skipping luminance calculation and thresholding.
+   * Non-zero values mark pixels to be traced.
+   *
+   * @param bitmap - Binary mask
+   * @returns this instance for chaining
+   */
+  loadBitmap(bitmap: Bitmap): Potrace {
+    if (!(bitmap instanceof Bitmap)) {
+      throw new TypeError('Expected Bitmap instance')
+    }
+
+    this._invalidate('decomposition')
+    this._imageData = null
+    this._luminanceData = null
+    this._channelHistograms = {}
+    this._binaryMask = bitmap.copy(value => value ? 1 : 0)
+    this._imageLoaded = true
+
+    return this
+  }
+
+  /**
+   * Creates Potrace instance with binary mask loaded
+   *
+   * @param bitmap - Binary mask, non-zero values mark pixels to be traced
+   * @param options - Configuration options
+   * @returns New Potrace instance
+   */
+  static fromBitmap(bitmap: Bitmap, options?: PotraceOptions): Potrace {
+    return new Potrace(options).loadBitmap(bitmap)
+  }
+
+  /**
+   * Stores a copy of pixel data and calculates luminance data from it
+   *
+   * @param pixels - Pixel data
+   * @private
+   */
+  private _setImageData(pixels: PixelData): void {
+    const { data, width, height } = pixels || {} as PixelData
+    const channels = pixels?.channels || 4
+
+    if (!data || !utils.isNumber(width) || !utils.isNumber(height) || width < 1 || height < 1) {
+      throw new Error('Pixel data should have data, width and height')
+    }
+
+    if (![1, 2, 3, 4].includes(channels)) {
+      throw new Error('Bad channels value. Expected to be 1, 2, 3 or 4')
+    }
+
+    if (data.length < width * height * channels) {
+      throw new Error(`Pixel data is too short for ${width}x${height} image with ${channels} channels`)
+    }
+
+    // Keep a copy of pixel data, luminance is recalculated from it when alphaMode or luminanceMode changes
+    this._binaryMask = null
+    this._channelHistograms = {}
+    this._imageData = {
+      data: new Uint8Array(data),
+      width,
+      height,
+      channels,
+    }
+
+    // Store the bitmap and mark as loaded
+    this._luminanceData = this._calcLuminanceData()
+    this._imageLoaded = true
+  }
+
+  /**
+   * Calculates luminance bitmap from loaded pixel data, handling transparency according to alphaMode
+   * and color channels according to luminanceMode, then applies preprocess filters in order
+   *
+   * @private
+   */
+  private _calcLuminanceData(): Bitmap {
+    if (!this._imageData) {
+      throw new Error('Image data not available')
+    }
+
+    const { data, width, height } = this._imageData
+    const channels = this._imageData.channels || 4
+    const hasColor = channels >= 3
+    const { alphaMode, luminanceMode, preprocess } = this._params
+    const bitmap = new Bitmap(width, height)
+    const [bgR, bgG, bgB] = alphaMode === Potrace.ALPHA_BLACK
+      ? [0, 0, 0]
+      : utils.parseHexColor(alphaMode) || [255, 255, 255]
+
+    for (let i = 0; i < bitmap.size; i++) {
+      const idx = i * channels
+      const alpha = channels === 4 ? data[idx + 3] : channels === 2 ? data[idx + 1] : 255
+      const opacity = alpha / 255
+
+      if (alphaMode === Potrace.ALPHA_CHANNEL) {
+        // Opaque pixels are considered ink, fully transparent ones are blank
+        bitmap.data[i] = 255 - alpha
+        continue
       }
+
+      // Composite pixel over background color
+      const r = bgR + (data[idx] - bgR) * opacity
+      const g = bgG + ((hasColor ? data[idx + 1] : data[idx]) - bgG) * opacity
+      const b = bgB + ((hasColor ? data[idx + 2] : data[idx]) - bgB) * opacity
+
+      bitmap.data[i] = utils.luminance(r, g, b, luminanceMode, alpha)
     }
+
+    return preprocess.reduce((filtered, filter) => filtered.applyFilter(filter), bitmap)
   }
 
   /**
-   * Returns path tag of SVG document
+   * Returns RGBA pixel data of loaded image with transparency handled according to alphaMode:
+   * pixels are composited over background color, or keep their alpha when alpha channel is used as ink
+   *
+   * @returns RGBA pixel data, shared between calls and not to be modified
+   * @internal
    */
-  getPathTag(): string {
+  getColorData(): PixelData {
+    if (!this._imageData) {
+      throw new Error('Image data not available')
+    }
+
+    if (this._colorData) {
+      return this._colorData
+    }
+
+    const { data, width, height } = this._imageData
+    const channels = this._imageData.channels || 4
+    const hasColor = channels >= 3
+    const { alphaMode } = this._params
+    const rgba = new Uint8ClampedArray(width * height * 4)
+    const [bgR, bgG, bgB] = alphaMode === Potrace.ALPHA_BLACK
+      ? [0, 0, 0]
+      : utils.parseHexColor(alphaMode) || [255, 255, 255]
+
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * channels
+      const alpha = channels === 4 ? data[idx + 3] : channels === 2 ? data[idx + 1] : 255
+      const opacity = alphaMode === Potrace.ALPHA_CHANNEL ? 1 : alpha / 255
+      const r = data[idx]
+      const g = hasColor ? data[idx + 1] : r
+      const b = hasColor ? data[idx + 2] : r
+
+      rgba[i * 4] = bgR + (r - bgR) * opacity
+      rgba[i * 4 + 1] = bgG + (g - bgG) * opacity
+      rgba[i * 4 + 2] = bgB + (b - bgB) * opacity
+      rgba[i * 4 + 3] = alphaMode === Potrace.ALPHA_CHANNEL ? alpha : 255
+    }
+
+    this._colorData = { data: rgba, width, height, channels: 4 }
+    return this._colorData
+  }
+
+  /**
+   * Returns histogram of loaded image. Luminance histogram is the one thresholding works with,
+   * with alphaMode and luminanceMode applied. Other modes are collected from source pixel values
+   * as loaded, without compositing transparent pixels over background.
+   *
+   * @param mode - Color channel or luminance formula
+   * @returns Histogram instance
+   */
+  getHistogram(mode: HistogramMode = Histogram.MODE_LUMINANCE): Histogram {
     if (!this._imageLoaded) {
       throw new Error('Image should be loaded first')
     }
 
-    if (!this._processed) {
-      this._process()
+    if (!this._imageData || !this._luminanceData) {
+      throw new Error('Image data not available')
     }
 
-    let pathData = ''
+    if (mode === Histogram.MODE_LUMINANCE) {
+      return this._luminanceData.histogram()
+    }
 
-    // Create path data for each curve
-    for (let i = 0; i < this._pathlist.length; i++) {
-      const path = this._pathlist[i]
-      if (!path.curve)
-        continue
+    if (!this._channelHistograms[mode]) {
+      this._channelHistograms[mode] = new Histogram(this._getRGBAImage(), mode)
+    }
 
-      let pathString = ''
+    return this._channelHistograms[mode]
+  }
 
-      // First point
-      const lastIndex = path.curve.n - 1
-      pathString += `M ${path.curve.c[lastIndex * 3 + 2].x}, ${path.curve.c[lastIndex * 3 + 2].y} `
+  /**
+   * Returns statistics of luminance and every channel of loaded image
+   */
+  getImageStats(): ImageStats {
+    const luminance = this.getHistogram()
+
+    return {
+      width: this._imageData!.width,
+      height: this._imageData!.height,
+      luminance: luminance.getStats(),
+      r: this.getHistogram(Histogram.MODE_R).getStats(),
+      g: this.getHistogram(Histogram.MODE_G).getStats(),
+      b: this.getHistogram(Histogram.MODE_B).getStats(),
+      alpha: this.getHistogram(Histogram.MODE_ALPHA).getStats(),
+      threshold: this._getAutoThreshold(),
+    }
+  }
 
-      // Draw bezier curves
-      for (let j = 0; j < path.curve.n; j++) {
-        pathString += `C ${path.curve.c[j * 3 + 0].x}, ${path.curve.c[j * 3 + 0].y}, ${path.curve.c[j * 3 + 1].x}, ${path.curve.c[j * 3 + 1].y}, ${path.curve.c[j * 3 + 2].x}, ${path.curve.c[j * 3 + 2].y} `
-      }
+  /**
+   * Expands loaded pixel data to RGBA without altering any values
+   *
+   * @private
+   */
+  private _getRGBAImage(): RGBAImage {
+    const { data, width, height } = this._imageData!
+    const channels = this._imageData!.channels || 4
+    const hasColor = channels >= 3
+    const rgba = new Uint8Array(width * height * 4)
+
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * channels
+
+      rgba[i * 4] = data[idx]
+      rgba[i * 4 + 1] = hasColor ? data[idx + 1] : data[idx]
+      rgba[i * 4 + 2] = hasColor ? data[idx + 2] : data[idx]
+      rgba[i * 4 + 3] = channels === 4 ? data[idx + 3] : channels === 2 ? data[idx + 1] : 255
+    }
 
-      pathData += pathString
+    return { bitmap: { data: rgba, width, height } }
+  }
+
+  /**
+   * Finds dominant color of source pixels inside or outside of a mask, used to resolve automatic colors
+   *
+   * @param mask - Bitmap where 1 marks traced pixels
+   * @param inside - Whether to sample pixels marked in the mask or the rest of them
+   * @returns Hex color or null if there is no color data (binary mask was loaded) or no pixels to sample
+   * @internal
+   */
+  sampleColor(mask: Bitmap, inside: boolean): string | null {
+    if (!this._imageData) {
+      return null
+    }
+
+    const color = Palette.dominantColor(this.getColorData(), i => !!mask.data[i] === inside)
+
+    return color && utils.toHexColor(...color)
+  }
+
+  /**
+   * Returns traced geometry as data: segments, sign, bounding box and area of every path,
+   * all in output coordinates, along with output dimensions
+   */
+  getResult(): PotraceResult {
+    if (!this._imageLoaded) {
+      throw new Error('Image should be loaded first')
+    }
+
+    this._process()
+
+    const { width, height, scale, offset } = this.getOutputTransform()
+
+    const paths = this._pathlist
+      .filter(path => path.curve)
+      .map((path): PotracePath => {
+        const segments = utils.curveToSegments(path.curve!, scale, offset)
+        const start = path.open
+          ? new Point(path.pt[0].x * scale.x + offset.x, path.pt[0].y * scale.y + offset.y)
+          : undefined
+
+        return {
+          sign: path.sign === '-' ? '-' : '+',
+          segments,
+          bbox: utils.segmentsBounds(segments, start),
+          area: path.area * scale.x * scale.y,
+          ...(start && { start }),
+        }
+      })
+
+    if (this._params.mode === Potrace.MODE_CENTERLINE) {
+      return { width, height, paths, strokeWidth: this._strokeWidth * Math.sqrt(scale.x * scale.y) }
     }
 
+    return { width, height, paths }
+  }
+
+  /**
+   * Returns path tag of SVG document
+   */
+  getPathTag(): string {
+    return this._renderPathTag(this.getResult())
+  }
+
+  /**
+   * Renders all paths of a result as a single path tag
+   *
+   * @private
+   */
+  private _renderPathTag(result: PotraceResult): string {
+    // Create path data for each path
+    const pathData = result.paths
+      .map(path => utils.renderSegments(path.segments, path.start))
+      .join(' ')
+
     // Apply colors
     let color = this._params.color
     if (color === Potrace.COLOR_AUTO) {
-      color = 'black'
+      if (this._autoColors.fill === undefined) {
+        this._autoColors.fill = this.sampleColor(this._getBlackMap(), true)
+      }
+
+      color = this._autoColors.fill || 'black'
+    }
+
+    if (result.strokeWidth !== undefined) {
+      return `<path d="${pathData}" stroke="${color}" stroke-width="${utils.fixed(result.strokeWidth)}" `
+        + `stroke-linecap="round" stroke-linejoin="round" fill="none"/>`
     }
 
     // Create a path tag with fill-rule attribute
@@ -305,119 +947,340 @@ export class Potrace {
   }
 
   /**
-   * Returns SVG image
+   * Returns traced paths arranged into a tree: top-level outlines contain holes,
+   * holes contain islands (outlines) and so on. Paths removed by turdSize are not part of the tree.
+   * Centerlines do not enclose anything, in centerline mode every path is a top-level node.
+   *
+   * @returns Top-level nodes in the order they were traced
    */
-  getSVG(): string {
+  getPathTree(): PathNode[] {
     if (!this._imageLoaded) {
       throw new Error('Image should be loaded first')
     }
 
-    if (!this._processed) {
-      this._process()
+    this._process()
+
+    const nodes: PathNode[] = []
+    const roots: PathNode[] = []
+    // Centerlines have no parents to look for
+    const centerline = this._params.mode === Potrace.MODE_CENTERLINE
+
+    for (const path of this._pathlist) {
+      const node: PathNode = {
+        path,
+        type: path.sign === '-' ? 'hole' : 'outline',
+        parent: null,
+        children: [],
+      }
+
+      // Paths are traced in raster order, so enclosing paths always come first and the
+      // closest preceding path containing the first pixel of this one is its direct parent
+      const x = path.pt[0].x + 0.5
+      const y = path.pt[0].y + 0.5
+
+      for (let i = centerline ? -1 : nodes.length - 1; i >= 0; i--) {
+        if (this._isInsidePath(nodes[i].path, x, y)) {
+          node.parent = nodes[i]
+          break
+        }
+      }
+
+      if (node.parent) {
+        node.parent.children.push(node)
+      }
+      else {
+        roots.push(node)
+      }
+
+      nodes.push(node)
     }
 
-    // Get SVG dimensions
-    const width = this._params.width || this._luminanceData?.width || 0
-    const height = this._params.height || this._luminanceData?.height || 0
+    return roots
+  }
 
-    // Apply colors
-    let color = this._params.color
-    if (color === Potrace.COLOR_AUTO) {
-      color = 'black'
+  /**
+   * Checks whether point lies inside pixel outline of a path, using even-odd rule
+   *
+   * @param path - Path with traced outline points
+   * @param x - Point x coordinate, should not be an integer
+   * @param y - Point y coordinate, should not be an integer
+   * @private
+   */
+  private _isInsidePath(path: Path, x: number, y: number): boolean {
+    if (x < path.minX || x > path.maxX || y < path.minY || y > path.maxY) {
+      return false
     }
 
-    let background = this._params.background
-    if (background === Potrace.COLOR_AUTO) {
-      background = 'white'
+    const points = path.pt
+    let inside = false
+
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const a = points[i]
+      const b = points[j]
+
+      if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside
+      }
     }
 
+    return inside
+  }
+
+  /**
+   * Returns SVG image
+   */
+  getSVG(): string {
+    const result = this.getResult()
+    const { width, height } = result
+
     // Create SVG header
     let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" version="1.1">\n\t`
 
-    // Add path data
-    svg += this.getPathTag()
-    svg += '\n</svg>'
+    // Add background
+    const backgroundTag = this.getBackgroundTag()
+    if (backgroundTag) {
+      svg += `${backgroundTag}\n\t`
+    }
+
+    // Add path data
+    svg += this._renderPathTag(result)
+    svg += '\n</svg>'
+
+    return svg
+  }
+
+  /**
+   * Returns <rect> tag filling the whole SVG with background color,
+   * or an empty string if background is transparent
+   *
+   * @param tracedMask - Pixels covered by traced paths, automatic background is sampled from the rest.
+   *                     Defaults to current binarized image
+   * @internal
+   */
+  getBackgroundTag(tracedMask?: Bitmap): string {
+    let background = this._params.background
+
+    if (!background || background === Potrace.COLOR_TRANSPARENT) {
+      return ''
+    }
+
+    if (background === Potrace.COLOR_AUTO) {
+      // Masks passed in change with the caller's state, so only the color sampled around own paths is kept
+      if (tracedMask) {
+        background = this.sampleColor(tracedMask, false) || 'white'
+      }
+      else {
+        if (this._autoColors.background === undefined) {
+          this._autoColors.background = this.sampleColor(this._getBlackMap(), false)
+        }
+
+        background = this._autoColors.background || 'white'
+      }
+    }
+
+    return `<rect x="0" y="0" width="100%" height="100%" fill="${background}" />`
+  }
+
+  /**
+   * Calculates output dimensions from width, height and scaleMode parameters
+   * along with scale and offset that map source pixels into them.
+   *
+   * If only one dimension is specified the other one is derived from the image aspect ratio.
+   * If both are specified the image is either stretched, scaled to fit inside
+   * or scaled to cover the output area, being centered in the latter two cases.
+   */
+  getOutputTransform(): OutputTransform {
+    const source = this._binaryMask || this._luminanceData
+    const sourceWidth = source?.width || 0
+    const sourceHeight = source?.height || 0
+    const { width, height, scaleMode } = this._params
+
+    if (!sourceWidth || !sourceHeight || (!width && !height)) {
+      return {
+        width: sourceWidth,
+        height: sourceHeight,
+        scale: { x: 1, y: 1 },
+        offset: { x: 0, y: 0 },
+      }
+    }
+
+    if (!width || !height) {
+      const ratio = width ? width / sourceWidth : height! / sourceHeight
+
+      return {
+        width: width || Math.round(sourceWidth * ratio),
+        height: height || Math.round(sourceHeight * ratio),
+        scale: { x: ratio, y: ratio },
+        offset: { x: 0, y: 0 },
+      }
+    }
+
+    if (scaleMode === Potrace.SCALE_STRETCH) {
+      return {
+        width,
+        height,
+        scale: { x: width / sourceWidth, y: height / sourceHeight },
+        offset: { x: 0, y: 0 },
+      }
+    }
 
-    return svg
+    const ratio = scaleMode === Potrace.SCALE_FILL
+      ? Math.max(width / sourceWidth, height / sourceHeight)
+      : Math.min(width / sourceWidth, height / sourceHeight)
+
+    return {
+      width,
+      height,
+      scale: { x: ratio, y: ratio },
+      offset: {
+        x: (width - sourceWidth * ratio) / 2,
+        y: (height - sourceHeight * ratio) / 2,
+      },
+    }
   }
 
   /**
    * Gets the <symbol> SVG element for this path data
    */
   getSymbol(_id: string): string {
+    const result = this.getResult()
+
+    return `<symbol id="${_id}" viewBox="0 0 ${result.width} ${result.height}">${this._renderPathTag(result)}</symbol>`
+  }
+
+  /**
+   * Process image data, running only the stages whose results are out of date
+   *
+   * @private
+   */
+  private _process(): void {
     if (!this._imageLoaded) {
       throw new Error('Image should be loaded first')
     }
 
-    if (!this._processed) {
-      this._process()
-    }
+    while (this._processedStages < PROCESSING_STAGES.length) {
+      const stage = PROCESSING_STAGES[this._processedStages]
+
+      if (stage === 'decomposition') {
+        // Clear previous paths and find new ones in binarized bitmap
+        this._pathlist = []
 
-    const width = this._luminanceData?.width || 0
-    const height = this._luminanceData?.height || 0
+        if (this._params.mode === Potrace.MODE_CENTERLINE) {
+          this._bmToCenterlines()
+        }
+        else {
+          this._bmToPathlist()
+        }
+      }
+      else {
+        for (const path of this._pathlist) {
+          this._processPath(path, stage)
+        }
+      }
 
-    return `<symbol id="${_id}" viewBox="0 0 ${width} ${height}">${this.getPathTag()}</symbol>`
+      this._processedStages++
+    }
   }
 
   /**
-   * Process image data
+   * Drops cached results of given processing stage and all stages after it
    *
    * @private
    */
-  private _process(): void {
-    // Don't process more than once
-    if (this._processed) {
-      return
-    }
+  private _invalidate(stage: ProcessingStage): void {
+    this._processedStages = Math.min(this._processedStages, PROCESSING_STAGES.indexOf(stage))
 
-    if (!this._imageLoaded) {
-      throw new Error('Image should be loaded first')
+    if (stage === 'decomposition') {
+      this._blackMap = null
+      this._colorData = null
+      this._autoColors = {}
     }
+  }
 
-    // Clear previous paths
-    this._pathlist = []
-
-    // Get binarized bitmap
-    this._bmToPathlist()
-
-    // Process the paths
-    this._processPath()
+  /**
+   * Builds bitmap that paths are decomposed from: binarized image with morphology operations applied in order
+   *
+   * @returns Bitmap where 1 marks pixels to be traced, shared between calls and not to be modified
+   * @private
+   */
+  private _getBlackMap(): Bitmap {
+    if (!this._blackMap) {
+      this._blackMap = this._params.morphology.reduce((bitmap, step) => bitmap.applyMorphology(step), this._binarize())
+    }
 
-    this._processed = true
+    return this._blackMap
   }
 
   /**
-   * Creating a new {@link Path} for every group of black pixels.
+   * Binarizes luminance data using threshold (or local thresholds when thresholdMode is adaptive)
+   * and blackOnWhite parameters, or returns a copy of binary mask if one was loaded instead of an image
+   *
+   * @returns Bitmap where 1 marks pixels to be traced
    * @private
    */
-  private _bmToPathlist(): void {
+  private _binarize(): Bitmap {
+    if (this._binaryMask) {
+      return this._binaryMask.copy()
+    }
+
     if (!this._luminanceData) {
       throw new Error('Luminance data not available')
     }
 
-    const threshold = this._params.threshold
-    const blackOnWhite = this._params.blackOnWhite
-    let blackMap: Bitmap
-
-    if (threshold === Potrace.THRESHOLD_AUTO) {
-      const autoThreshold = this._luminanceData.histogram().autoThreshold()
-      blackMap = this._luminanceData.copy((lum) => {
-        const pastTheThreshold = blackOnWhite
-          ? lum > (autoThreshold || 128)
-          : lum < (autoThreshold || 128)
+    const { blackOnWhite, thresholdMode, windowSize, k } = this._params
 
-        return pastTheThreshold ? 0 : 1
-      })
+    if (thresholdMode !== 'global') {
+      // Local thresholds look for dark pixels, so light ones get inverted first
+      const luminance = blackOnWhite ? this._luminanceData : this._luminanceData.copy(lum => 255 - lum)
+      return luminance.adaptiveThreshold(thresholdMode, windowSize, k ?? undefined)
     }
-    else {
-      blackMap = this._luminanceData.copy((lum) => {
-        const pastTheThreshold = blackOnWhite
-          ? lum > threshold
-          : lum < threshold
 
-        return pastTheThreshold ? 0 : 1
-      })
-    }
+    const threshold = this._params.threshold === Potrace.THRESHOLD_AUTO
+      ? this._getAutoThreshold()
+      : this._params.threshold
+
+    return this._luminanceData.copy((lum) => {
+      const pastTheThreshold = blackOnWhite
+        ? lum > threshold
+        : lum < threshold
+
+      return pastTheThreshold ? 0 : 1
+    })
+  }
+
+  /**
+   * Calculates global threshold from luminance histogram using thresholdMethod
+   *
+   * @private
+   */
+  private _getAutoThreshold(): number {
+    const { blackOnWhite, thresholdMethod, percentile } = this._params
+
+    // Percentile is the share of traced pixels, which are the light ones when tracing white on black
+    return this._luminanceData!.histogram().autoThreshold(
+      undefined,
+      undefined,
+      thresholdMethod,
+      blackOnWhite ? percentile : 100 - percentile,
+    ) || 128
+  }
+
+  /**
+   * Creating a new {@link Path} for every group of black pixels.
+   * @private
+   */
+  private _bmToPathlist(): void {
+    // Paths are XORed out of the working copy as they are found, while the sign of each path
+    // is read from untouched bitmap, so that holes are recognized as such
+    const sourceMap = this._getBlackMap()
+    const blackMap = sourceMap.copy()
+
+    // Diagonal pixels are joined when ambiguities are resolved in favour of traced (black) pixels,
+    // and kept apart when resolved in favour of the background, so connectivity takes precedence
+    const { connectivity } = this._params
+    const turnPolicy = connectivity === 8
+      ? Potrace.TURNPOLICY_BLACK
+      : connectivity === 4 ? Potrace.TURNPOLICY_WHITE : this._params.turnPolicy
 
     /**
      * finds next black pixel of the image
@@ -468,7 +1331,7 @@ export class Potrace {
       let diry = 1
       let tmp: number
 
-      path.sign = blackMap.getValueAt(point.x, point.y) ? '+' : '-'
+      path.sign = sourceMap.getValueAt(point.x, point.y) ? '+' : '-'
 
       // Loop until we return to start point
       while (true) {
@@ -499,11 +1362,11 @@ export class Potrace {
         const r = blackMap.getValueAt(x + (dirx - diry - 1) / 2, y + (diry + dirx - 1) / 2)
 
         if (r && !l) {
-          if (this._params.turnPolicy === 'right'
-            || (this._params.turnPolicy === 'black' && path.sign === '+')
-            || (this._params.turnPolicy === 'white' && path.sign === '-')
-            || (this._params.turnPolicy === 'majority' && majority(x, y))
-            || (this._params.turnPolicy === 'minority' && !majority(x, y))) {
+          if (turnPolicy === 'right'
+            || (turnPolicy === 'black' && path.sign === '+')
+            || (turnPolicy === 'white' && path.sign === '-')
+            || (turnPolicy === 'majority' && majority(x, y))
+            || (turnPolicy === 'minority' && !majority(x, y))) {
             tmp = dirx
             dirx = -diry
             diry = tmp
@@ -571,6 +1434,301 @@ export class Potrace {
     }
   }
 
+  /**
+   * Creating a new open {@link Path} for every stroke of the thinned image and a closed one for every loop.
+   * Skeleton is traced as a graph where strokes run between nodes: end points and junctions.
+   * Short spurs sticking out of junctions are dropped, and so are skeleton parts too small for turdSize.
+   * @private
+   */
+  private _bmToCenterlines(): void {
+    const blackMap = this._getBlackMap()
+    const skeleton = blackMap.thin()
+    const { width, height, data } = skeleton
+    let inkPixels = 0
+    let skeletonPixels = 0
+
+    for (let i = 0; i < data.length; i++) {
+      inkPixels += blackMap.data[i] ? 1 : 0
+      skeletonPixels += data[i]
+    }
+
+    // Every skeleton pixel stands for a cross-section of the stroke it runs through
+    this._strokeWidth = skeletonPixels ? Math.max(1, inkPixels / skeletonPixels) : 1
+    const strokeWidth = this._strokeWidth
+
+    /**
+     * Finds skeleton pixels adjacent to the given one. Diagonal neighbours only count when no
+     * orthogonal neighbour connects them, so that staircases do not make up tiny triangles
+     */
+    const neighbours = (i: number): number[] => {
+      const x = i % width
+      const y = (i - x) / width
+      const isSet = (dx: number, dy: number): boolean =>
+        utils.between(x + dx, 0, width - 1) && utils.between(y + dy, 0, height - 1) && data[i + dy * width + dx] === 1
+      const result: number[] = []
+
+      for (const [dx, dy] of [[0, -1], [1, 0], [0, 1], [-1, 0]]) {
+        if (isSet(dx, dy)) {
+          result.push(i + dy * width + dx)
+        }
+      }
+
+      for (const [dx, dy] of [[1, -1], [1, 1], [-1, 1], [-1, -1]]) {
+        if (isSet(dx, dy) && !isSet(dx, 0) && !isSet(0, dy)) {
+          result.push(i + dy * width + dx)
+        }
+      }
+
+      return result
+    }
+
+    // Connected parts of the skeleton covering no more than turdSize pixels are removed first
+    const seen = new Uint8Array(data.length)
+
+    for (let i = 0; i < data.length; i++) {
+      if (!data[i] || seen[i]) {
+        continue
+      }
+
+      const component = [i]
+      seen[i] = 1
+
+      for (let k = 0; k < component.length; k++) {
+        for (const j of neighbours(component[k])) {
+          if (!seen[j]) {
+            seen[j] = 1
+            component.push(j)
+          }
+        }
+      }
+
+      if (component.length * strokeWidth <= this._params.turdSize) {
+        for (const j of component) {
+          data[j] = 0
+        }
+      }
+    }
+
+    const links = new Map<number, number[]>()
+
+    for (let i = 0; i < data.length; i++) {
+      if (data[i]) {
+        links.set(i, neighbours(i))
+      }
+    }
+
+    const degree = (i: number): number => links.get(i)!.length
+    const visited = new Uint8Array(data.length)
+
+    /**
+     * Follows skeleton from a pixel through the given neighbour until reaching a node,
+     * or getting back to the starting pixel if the stroke is a loop
+     */
+    const follow = (start: number, next: number): number[] => {
+      const stroke = [start]
+      let prev = start
+      let current = next
+
+      while (current !== start && degree(current) === 2) {
+        visited[current] = 1
+        stroke.push(current)
+
+        const following = links.get(current)!.find(j => j !== prev)!
+        prev = current
+        current = following
+      }
+
+      if (degree(current) !== 2) {
+        stroke.push(current)
+      }
+
+      return stroke
+    }
+
+    const strokes: number[][] = []
+    const loops: number[][] = []
+
+    for (const [i, adjacent] of links) {
+      if (adjacent.length === 2) {
+        continue
+      }
+
+      if (!adjacent.length) {
+        strokes.push([i])
+      }
+
+      for (const j of adjacent) {
+        // Strokes between two adjacent nodes are added once, from the node that comes first
+        if (degree(j) !== 2 ? i < j : !visited[j]) {
+          strokes.push(follow(i, j))
+        }
+      }
+    }
+
+    // Whatever is left unvisited makes up closed loops without any nodes
+    for (const [i, adjacent] of links) {
+      if (adjacent.length === 2 && !visited[i]) {
+        visited[i] = 1
+        loops.push(follow(i, adjacent[0]))
+      }
+    }
+
+    // Spurs run from a junction to a free end and are shorter than the stroke is wide
+    const isSpur = (stroke: number[]): boolean => {
+      const first = degree(stroke[0])
+      const last = degree(stroke[stroke.length - 1])
+
+      return stroke.length < strokeWidth && ((first === 1 && last > 2) || (last === 1 && first > 2))
+    }
+
+    const kept = strokes.filter(stroke => !isSpur(stroke))
+    const junctions = new Map<number, number[][]>()
+
+    for (const stroke of kept) {
+      for (const end of [stroke[0], stroke[stroke.length - 1]]) {
+        if (degree(end) > 2) {
+          junctions.set(end, [...(junctions.get(end) || []), stroke])
+        }
+      }
+    }
+
+    // Junctions left with two strokes after removing spurs are not junctions anymore, the strokes are joined
+    const joined = new Set<number[]>()
+
+    for (const [junction, ending] of junctions) {
+      const [a, b] = ending
+
+      if (ending.length !== 2 || a === b) {
+        continue
+      }
+
+      if (a[a.length - 1] !== junction) {
+        a.reverse()
+      }
+
+      if (b[0] !== junction) {
+        b.reverse()
+      }
+
+      for (let k = 1; k < b.length; k++) {
+        a.push(b[k])
+      }
+
+      joined.add(b)
+
+      const other = junctions.get(b[b.length - 1])
+
+      if (other) {
+        other[other.indexOf(b)] = a
+      }
+    }
+
+    /**
+     * Creates path going through centers of given pixels
+     */
+    const toPath = (stroke: number[], open: boolean): Path => {
+      const path = new Path()
+      path.sign = '+'
+      path.open = open
+
+      for (const i of stroke) {
+        const x = i % width
+        const y = (i - x) / width
+
+        path.pt.push(new Point(x + 0.5, y + 0.5))
+        path.minX = Math.min(path.minX, x)
+        path.minY = Math.min(path.minY, y)
+        path.maxX = Math.max(path.maxX, x + 1)
+        path.maxY = Math.max(path.maxY, y + 1)
+      }
+
+      path.len = path.pt.length
+      return path
+    }
+
+    for (const stroke of kept) {
+      if (!joined.has(stroke)) {
+        this._pathlist.push(toPath(stroke, true))
+      }
+    }
+
+    for (const loop of loops) {
+      this._pathlist.push(toPath(loop, false))
+    }
+  }
+
+  /**
+   * Simplifies centerline created by _bmToCenterlines method into polygon, storing indexes of its vertices.
+   * Loops are split at the point farthest from their start so both halves can be simplified as open polylines
+   */
+  private _simplifyCenterline(path: Path): void {
+    const n = path.len
+    const pt = path.pt
+
+    if (path.open) {
+      path.po = simplifyPolyline(pt, 0, n - 1, CENTERLINE_TOLERANCE)
+    }
+    else {
+      const closed = [...pt, pt[0]]
+      let farthest = 0
+
+      for (let i = 1; i < n; i++) {
+        if (utils.ddist(pt[i], pt[0]) > utils.ddist(pt[farthest], pt[0])) {
+          farthest = i
+        }
+      }
+
+      path.po = [
+        ...simplifyPolyline(closed, 0, farthest, CENTERLINE_TOLERANCE),
+        ...simplifyPolyline(closed, farthest, n, CENTERLINE_TOLERANCE).slice(1, -1),
+      ]
+    }
+
+    path.m = path.po.length
+  }
+
+  /**
+   * Smooths simplified centerline. Loops are smoothed just like outlines, while open centerlines
+   * get one segment around every inner vertex, with the first and the last one reaching free ends
+   */
+  private _smoothCenterline(path: Path): void {
+    const vertices = path.po!.map(i => path.pt[i])
+    const m = vertices.length
+
+    if (!path.open) {
+      path.curve = new Curve(m)
+      path.curve.vertex = vertices
+      this._smooth(path)
+      return
+    }
+
+    // Dots and straight strokes are drawn as a single corner through their middle
+    if (m < 3) {
+      const curve = new Curve(1)
+      curve.vertex[0] = utils.interval(0.5, vertices[0], vertices[m - 1])
+      curve.tag[0] = 'CORNER'
+      curve.c[1] = curve.vertex[0]
+      curve.c[2] = vertices[m - 1]
+      curve.alpha[0] = curve.alpha0[0] = 4 / 3.0
+      curve.beta[0] = 0.5
+      curve.alphaCurve = 1
+      path.curve = curve
+      return
+    }
+
+    const curve = new Curve(m - 2)
+
+    for (let j = 1; j < m - 1; j++) {
+      const end = j === m - 2 ? vertices[m - 1] : utils.interval(0.5, vertices[j], vertices[j + 1])
+
+      curve.vertex[j - 1] = vertices[j]
+      this._smoothVertex(curve, j - 1, vertices[j - 1], vertices[j], vertices[j + 1], end)
+    }
+
+    curve.alphaCurve = 1
+    path.curve = curve
+  }
+
   /**
    * Calculate sums for path
    */
@@ -775,13 +1933,21 @@ export class Potrace {
   }
 
   /**
-   * Processes path list created by _bmToPathlist method creating and optimizing {@link Curve}'s
+   * Runs given stage for a path created by _bmToPathlist method, creating and optimizing its {@link Curve}
    * @private
    */
-  private _processPath(): void {
-    for (let i = 0; i < this._pathlist.length; i++) {
-      const path = this._pathlist[i]
+  private _processPath(path: Path, stage: ProcessingStage): void {
+    const centerline = this._params.mode === Potrace.MODE_CENTERLINE
 
+    if (stage === 'polygon' && centerline) {
+      // Centerlines are polylines already, they only need fewer vertices
+      this._simplifyCenterline(path)
+    }
+    else if (stage === 'smoothing' && centerline) {
+      this._smoothCenterline(path)
+      path.smoothCurve = path.curve
+    }
+    else if (stage === 'polygon') {
       // Calculate path sums
       this._calcSums(path)
 
@@ -790,8 +1956,9 @@ export class Potrace {
 
       // Find optimal polygon
       this._bestPolygon(path)
-
-      // Adjust vertices to create curves
+    }
+    else if (stage === 'smoothing') {
+      // Adjust vertices to create curves, control points depend on alphaMax
       this._adjustVertices(path)
 
       // Reverse path if necessary
@@ -799,11 +1966,15 @@ export class Potrace {
         this._reverse(path)
       }
 
-      // Smooth the path
+      // Smooth the path, keeping result for optimization to start from
       this._smooth(path)
+      path.smoothCurve = path.curve
+    }
+    else if (stage === 'optimization') {
+      path.curve = path.smoothCurve || null
 
-      // Optimize curves if enabled
-      if (this._params.optCurve) {
+      // Optimize curves if enabled, joining segments of centerlines is not supported
+      if (this._params.optCurve && !centerline) {
         this._optiCurve(path)
       }
     }
@@ -911,48 +2082,56 @@ export class Potrace {
       const k = utils.mod(i + 2, m)
       const p4 = utils.interval(1 / 2.0, curve.vertex[k], curve.vertex[j])
 
-      const denom = utils.ddenom(curve.vertex[i], curve.vertex[k])
-      let alpha: number
-
-      if (denom !== 0.0) {
-        let dd = utils.dpara(curve.vertex[i], curve.vertex[j], curve.vertex[k]) / denom
-        dd = Math.abs(dd)
-        alpha = dd > 1 ? (1 - 1.0 / dd) : 0
-        alpha = alpha / 0.75
-      }
-      else {
-        alpha = 4 / 3.0
-      }
+      this._smoothVertex(curve, j, curve.vertex[i], curve.vertex[j], curve.vertex[k], p4)
+    }
 
-      curve.alpha0[j] = alpha
+    curve.alphaCurve = 1
+  }
 
-      if (alpha >= this._params.alphaMax) {
-        curve.tag[j] = 'CORNER'
-        curve.c[3 * j + 1] = curve.vertex[j]
-        curve.c[3 * j + 2] = p4
-      }
-      else {
-        if (alpha < 0.55) {
-          alpha = 0.55
-        }
-        else if (alpha > 1) {
-          alpha = 1
-        }
+  /**
+   * Makes segment j of the curve, going around vertex between its neighbours and ending at given point,
+   * a corner if the vertex is sharp enough according to alphaMax or a bezier curve otherwise
+   */
+  private _smoothVertex(curve: Curve, j: number, prev: Point, vertex: Point, next: Point, end: Point): void {
+    const denom = utils.ddenom(prev, next)
+    let alpha: number
+
+    if (denom !== 0.0) {
+      let dd = utils.dpara(prev, vertex, next) / denom
+      dd = Math.abs(dd)
+      alpha = dd > 1 ? (1 - 1.0 / dd) : 0
+      alpha = alpha / 0.75
+    }
+    else {
+      alpha = 4 / 3.0
+    }
 
-        const p2 = utils.interval(0.5 + 0.5 * alpha, curve.vertex[i], curve.vertex[j])
-        const p3 = utils.interval(0.5 + 0.5 * alpha, curve.vertex[k], curve.vertex[j])
+    curve.alpha0[j] = alpha
 
-        curve.tag[j] = 'CURVE'
-        curve.c[3 * j + 0] = p2
-        curve.c[3 * j + 1] = p3
-        curve.c[3 * j + 2] = p4
+    if (alpha >= this._params.alphaMax) {
+      curve.tag[j] = 'CORNER'
+      curve.c[3 * j + 1] = vertex
+      curve.c[3 * j + 2] = end
+    }
+    else {
+      if (alpha < 0.55) {
+        alpha = 0.55
       }
+      else if (alpha > 1) {
+        alpha = 1
+      }
+
+      const p2 = utils.interval(0.5 + 0.5 * alpha, prev, vertex)
+      const p3 = utils.interval(0.5 + 0.5 * alpha, next, vertex)
 
-      curve.alpha[j] = alpha
-      curve.beta[j] = 0.5
+      curve.tag[j] = 'CURVE'
+      curve.c[3 * j + 0] = p2
+      curve.c[3 * j + 1] = p3
+      curve.c[3 * j + 2] = end
     }
 
-    curve.alphaCurve = 1
+    curve.alpha[j] = alpha
+    curve.beta[j] = 0.5
   }
 
   /**
@@ -1266,37 +2445,104 @@ export class Potrace {
       throw new Error(`Bad turnPolicy value. Allowed values are: ${goodVals}`)
     }
 
+    if (params && params.connectivity != null && params.connectivity !== 4 && params.connectivity !== 8) {
+      throw new Error('Bad connectivity value. Allowed values are: 4, 8 or null')
+    }
+
     if (params && params.threshold != null && params.threshold !== Potrace.THRESHOLD_AUTO) {
       if (typeof params.threshold !== 'number' || !utils.between(params.threshold, 0, 255)) {
         throw new Error('Bad threshold value. Expected to be an integer in range 0..255')
       }
     }
 
+    if (params && params.thresholdMode && !Potrace.SUPPORTED_THRESHOLDMODE_VALUES.includes(params.thresholdMode)) {
+      const goodVals = `'${Potrace.SUPPORTED_THRESHOLDMODE_VALUES.join('\', \'')}'`
+      throw new Error(`Bad thresholdMode value. Allowed values are: ${goodVals}`)
+    }
+
+    if (params && params.thresholdMethod && !Potrace.SUPPORTED_THRESHOLDMETHOD_VALUES.includes(params.thresholdMethod)) {
+      const goodVals = `'${Potrace.SUPPORTED_THRESHOLDMETHOD_VALUES.join('\', \'')}'`
+      throw new Error(`Bad thresholdMethod value. Allowed values are: ${goodVals}`)
+    }
+
+    if (params && params.percentile != null && (typeof params.percentile !== 'number' || !utils.between(params.percentile, 0, 100))) {
+      throw new Error('Bad percentile value. Expected to be a number in range 0..100')
+    }
+
+    if (params && params.windowSize != null && (!Number.isInteger(params.windowSize) || params.windowSize < 3)) {
+      throw new Error('Bad windowSize value. Expected to be an integer not less than 3')
+    }
+
+    if (params && params.k != null && !Number.isFinite(params.k)) {
+      throw new Error('Bad k value. Expected to be a number or null')
+    }
+
     if (params && params.optCurve != null && typeof params.optCurve !== 'boolean') {
       throw new Error('\'optCurve\' must be Boolean')
     }
-  }
 
-  /**
-   * Process a loaded image
-   * @param image - Jimp image instance
-   * @private
-   */
-  private _processLoadedImage(image: any): void {
-    const bitmap = new Bitmap(image.bitmap.width, image.bitmap.height)
-    const pixels = image.bitmap.data
-
-    image.scan(0, 0, image.bitmap.width, image.bitmap.height, (x: number, y: number, idx: number) => {
-      // We want background underneath non-opaque regions to be white
-      const opacity = pixels[idx + 3] / 255
-      const r = 255 + (pixels[idx + 0] - 255) * opacity
-      const g = 255 + (pixels[idx + 1] - 255) * opacity
-      const b = 255 + (pixels[idx + 2] - 255) * opacity
-
-      bitmap.data[idx / 4] = utils.luminance(r, g, b)
-    })
+    for (const dimension of ['width', 'height'] as const) {
+      const value = params && params[dimension]
+      if (value != null && (typeof value !== 'number' || !(value > 0))) {
+        throw new Error(`Bad ${dimension} value. Expected to be a positive number or null`)
+      }
+    }
 
-    this._luminanceData = bitmap
-    this._imageLoaded = true
+    if (params && params.alphaMode
+      && ![Potrace.ALPHA_WHITE, Potrace.ALPHA_BLACK, Potrace.ALPHA_CHANNEL].includes(params.alphaMode)
+      && !utils.parseHexColor(params.alphaMode)) {
+      throw new Error('Bad alphaMode value. Allowed values are: \'white\', \'black\', \'alpha\' or a hex color')
+    }
+
+    if (params && params.luminanceMode && !Potrace.SUPPORTED_LUMINANCEMODE_VALUES.includes(params.luminanceMode)) {
+      const goodVals = `'${Potrace.SUPPORTED_LUMINANCEMODE_VALUES.join('\', \'')}'`
+      throw new Error(`Bad luminanceMode value. Allowed values are: ${goodVals}`)
+    }
+
+    if (params && params.preprocess != null) {
+      if (!Array.isArray(params.preprocess)) {
+        throw new TypeError('Bad preprocess value. Expected to be an array of filters')
+      }
+
+      for (const filter of params.preprocess) {
+        const name = typeof filter === 'string' ? filter : filter?.filter
+
+        if (!Potrace.SUPPORTED_FILTER_VALUES.includes(name)) {
+          const goodVals = `'${Potrace.SUPPORTED_FILTER_VALUES.join('\', \'')}'`
+          throw new Error(`Bad preprocess filter. Allowed values are: ${goodVals}`)
+        }
+
+        // Parameter ranges are checked by filters themselves, on an empty bitmap
+        new Bitmap(0, 0).applyFilter(filter)
+      }
+    }
+
+    if (params && params.morphology != null) {
+      if (!Array.isArray(params.morphology)) {
+        throw new TypeError('Bad morphology value. Expected to be an array of operations')
+      }
+
+      for (const step of params.morphology) {
+        const name = typeof step === 'string' ? step : step?.operation
+
+        if (!Potrace.SUPPORTED_MORPHOLOGY_VALUES.includes(name)) {
+          const goodVals = `'${Potrace.SUPPORTED_MORPHOLOGY_VALUES.join('\', \'')}'`
+          throw new Error(`Bad morphology operation. Allowed values are: ${goodVals}`)
+        }
+
+        // Structuring elements are checked by operations themselves, on an empty bitmap
+        new Bitmap(0, 0).applyMorphology(step)
+      }
+    }
+
+    if (params && params.mode && !Potrace.SUPPORTED_MODE_VALUES.includes(params.mode)) {
+      const goodVals = `'${Potrace.SUPPORTED_MODE_VALUES.join('\', \'')}'`
+      throw new Error(`Bad mode value. Allowed values are: ${goodVals}`)
+    }
+
+    if (params && params.scaleMode && !Potrace.SUPPORTED_SCALEMODE_VALUES.includes(params.scaleMode)) {
+      const goodVals = `'${Potrace.SUPPORTED_SCALEMODE_VALUES.join('\', \'')}'`
+      throw new Error(`Bad scaleMode value. Allowed values are: ${goodVals}`)
+    }
   }
 }
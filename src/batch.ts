@@ -0,0 +1,247 @@
+import type { PosterizerOptions } from './Posterizer'
+import type { PotraceOptions } from './Potrace'
+import { mkdir, stat, writeFile } from 'node:fs/promises'
+import * as path from 'node:path'
+import process from 'node:process'
+import { glob, isDynamicPattern } from 'tinyglobby'
+import { Posterizer } from './Posterizer'
+import { Potrace } from './Potrace'
+
+/**
+ * Extensions of files picked up when a directory is given as batch input
+ */
+export const BATCH_IMAGE_EXTENSIONS: string[] = ['png', 'jpg', 'jpeg', 'bmp', 'gif', 'tif', 'tiff']
+
+/**
+ * Options for traceBatch method
+ */
+export interface BatchOptions {
+  /**
+   * Directory output files are written to, mirroring paths of input files relative to the
+   * directory or static part of the glob they were found with. Defaults to writing next to input files
+   */
+  outDir?: string
+  /** Directory relative inputs and outDir are resolved against. Defaults to current working directory */
+  cwd?: string
+  /** Maximum number of files processed at the same time */
+  concurrency?: number
+  /** Use Posterizer instead of Potrace */
+  posterize?: boolean
+  /** Options shared by all files */
+  traceOptions?: PotraceOptions | PosterizerOptions
+  /** Called after each file is processed, whether it succeeded or not */
+  onProgress?: (result: BatchFileResult, done: number, total: number) => void
+}
+
+/**
+ * Outcome of processing a single file in a batch
+ */
+export interface BatchFileResult {
+  input: string
+  output: string
+  error: Error | null
+  /** Processing time in milliseconds */
+  duration: number
+}
+
+/**
+ * Summary of a batch run
+ */
+export interface BatchReport {
+  /** Results in the order input files were found */
+  results: BatchFileResult[]
+  succeeded: number
+  failed: number
+  /** Total time in milliseconds */
+  duration: number
+}
+
+interface BatchEntry {
+  input: string
+  output: string
+  /** Earlier input that is written to the same output file */
+  conflict?: string
+}
+
+/**
+ * Traces every file matched by globs, directories or file paths and writes SVGs to mirrored paths.
+ * Files that fail to load or trace are reported in the results and do not abort the batch, and so are
+ * files whose output path is already taken by another input, such as `logo.png` and `logo.jpg`.
+ *
+ * @param inputs - Glob patterns, directories (searched recursively for images) or file paths
+ * @param options - Batch options
+ * @returns Report with result of each file
+ */
+export async function traceBatch(inputs: string | string[], options: BatchOptions = {}): Promise<BatchReport> {
+  const start = performance.now()
+  const concurrency = options.concurrency ?? 4
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('Bad concurrency value. Expected to be a positive integer')
+  }
+
+  // Shared options are validated once, so a typo fails the batch instead of every file
+  createTracer(options)
+
+  const entries = await resolveEntries(Array.isArray(inputs) ? inputs : [inputs], options)
+  const results: BatchFileResult[] = Array.from({ length: entries.length })
+  let next = 0
+  let done = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < entries.length) {
+      const index = next++
+      const result = await processEntry(entries[index], options)
+
+      results[index] = result
+      done++
+
+      if (options.onProgress) {
+        options.onProgress(result, done, entries.length)
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, entries.length) }, worker))
+
+  const failed = results.filter(result => result.error).length
+
+  return {
+    results,
+    succeeded: results.length - failed,
+    failed,
+    duration: performance.now() - start,
+  }
+}
+
+/**
+ * Formats batch report as human-readable text, listing failed files with their errors
+ *
+ * @param report - Report returned by traceBatch
+ * @returns Multi-line summary
+ */
+export function formatBatchReport(report: BatchReport): string {
+  const seconds = (report.duration / 1000).toFixed(2)
+  const lines = [
+    `Processed ${report.results.length} file${report.results.length === 1 ? '' : 's'} in ${seconds}s: ${report.succeeded} succeeded, ${report.failed} failed`,
+  ]
+
+  for (const result of report.results) {
+    if (result.error) {
+      lines.push(`  ${result.input}: ${result.error.message}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Creates Potrace or Posterizer instance for shared options
+ *
+ * @throws If any of the options is invalid
+ */
+function createTracer(options: BatchOptions): Potrace | Posterizer {
+  return options.posterize ? new Posterizer(options.traceOptions) : new Potrace(options.traceOptions)
+}
+
+/**
+ * Finds files for all inputs and calculates their output paths, skipping duplicates
+ * and marking files whose output path is taken by an earlier one
+ */
+async function resolveEntries(inputs: string[], options: BatchOptions): Promise<BatchEntry[]> {
+  const cwd = path.resolve(options.cwd || process.cwd())
+  const outDir = options.outDir ? path.resolve(cwd, options.outDir) : null
+  const entries: BatchEntry[] = []
+  const seen = new Set<string>()
+  const outputs = new Map<string, string>()
+
+  for (const input of inputs) {
+    let base: string
+    let files: string[]
+
+    if (isDynamicPattern(input)) {
+      const split = splitPattern(input)
+      base = path.resolve(cwd, split.base)
+      files = await glob(split.pattern, { cwd: base, absolute: true, onlyFiles: true })
+    }
+    else if ((await stat(path.resolve(cwd, input)).catch(() => null))?.isDirectory()) {
+      base = path.resolve(cwd, input)
+      files = await glob(`**/*.{${BATCH_IMAGE_EXTENSIONS.join(',')}}`, {
+        cwd: base,
+        absolute: true,
+        onlyFiles: true,
+        caseSensitiveMatch: false,
+      })
+    }
+    else {
+      // Missing files are kept, so they show up as failures in the report
+      base = path.dirname(path.resolve(cwd, input))
+      files = [path.resolve(cwd, input)]
+    }
+
+    for (const file of files.map(file => path.resolve(file)).sort()) {
+      if (seen.has(file)) {
+        continue
+      }
+
+      const { dir, name } = path.parse(path.relative(base, file))
+      const output = path.join(outDir || base, dir, `${name}.svg`)
+
+      seen.add(file)
+      entries.push({ input: file, output, conflict: outputs.get(output) })
+
+      if (!outputs.has(output)) {
+        outputs.set(output, file)
+      }
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Splits glob into its static directory part and the dynamic rest.
+ * Globs use forward slashes, so Windows separators are converted first
+ */
+function splitPattern(pattern: string): { base: string, pattern: string } {
+  // Backslashes are escape characters in globs everywhere else
+  const normalized = path.sep === '\\' ? pattern.replaceAll(path.sep, '/') : pattern
+  const segments = normalized.split('/')
+  const index = segments.findIndex(segment => isDynamicPattern(segment))
+  const base = segments.slice(0, index).join('/')
+
+  return {
+    base: base || (normalized.startsWith('/') ? '/' : '.'),
+    pattern: segments.slice(index).join('/'),
+  }
+}
+
+/**
+ * Traces a single file and writes the result, catching any error
+ */
+async function processEntry(entry: BatchEntry, options: BatchOptions): Promise<BatchFileResult> {
+  const start = performance.now()
+
+  try {
+    if (entry.conflict) {
+      throw new Error(`Output file ${entry.output} is already written for ${entry.conflict}`)
+    }
+
+    const tracer = createTracer(options)
+    await tracer.loadImage(entry.input)
+    const svg = tracer.getSVG()
+
+    await mkdir(path.dirname(entry.output), { recursive: true })
+    await writeFile(entry.output, svg)
+
+    return { input: entry.input, output: entry.output, error: null, duration: performance.now() - start }
+  }
+  catch (err) {
+    return {
+      input: entry.input,
+      output: entry.output,
+      error: err instanceof Error ? err : new Error(String(err)),
+      duration: performance.now() - start,
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export * from './Posterizer'
+export * from './Potrace'
+export * from './trace'
+export * from './types'
+export * from './utils'
@@ -1,5 +1,9 @@
-export * from './Posterizer'
-export * from './Potrace'
-export * from './trace'
-export * from './types'
-export * from './utils'
+import { readImageWithJimp } from './jimp'
+import { Potrace } from './Potrace'
+
+export * from './batch'
+export * from './core'
+export * from './jimp'
+
+// Main entry point reads file paths and buffers with Jimp
+Potrace.setImageReader(readImageWithJimp)
@@ -0,0 +1,22 @@
+import type { Buffer } from 'node:buffer'
+import type { PixelData } from './Potrace'
+import { Jimp } from 'jimp'
+
+/**
+ * Image reader that decodes file path or Buffer using Jimp,
+ * registered by the main entry point with {@link Potrace.setImageReader}
+ *
+ * @param source - File path or Buffer
+ * @returns RGBA pixel data of the image
+ */
+export async function readImageWithJimp(source: string | Buffer | any): Promise<PixelData> {
+  // Use type assertion to avoid TS error with Jimp.read
+  const image = await (Jimp.read as any)(source)
+
+  return {
+    data: image.bitmap.data,
+    width: image.bitmap.width,
+    height: image.bitmap.height,
+    channels: 4,
+  }
+}
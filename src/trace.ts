@@ -1,6 +1,6 @@
-import type { Buffer } from 'node:buffer'
 import type { PotraceOptions } from './Potrace'
 import { Potrace } from './Potrace'
+import { Bitmap } from './types/Bitmap'
 
 /**
  * Callback for trace method
@@ -11,6 +11,14 @@ export type TraceCallback = (
   instance?: Potrace
 ) => void
 
+/**
+ * Result of traceAsync method
+ */
+export interface TraceResult {
+  svg: string
+  instance: Potrace
+}
+
 /**
  * Wrapper for Potrace that simplifies use down to one function call
  *
@@ -19,16 +27,16 @@ export type TraceCallback = (
  * @param cb - Callback function
  */
 export function trace(
-  file: string | Buffer | any, // Using 'any' for Jimp to avoid type reference issues
+  file: string | Uint8Array | any, // Using 'any' for Jimp to avoid type reference issues
   options: PotraceOptions | TraceCallback,
   cb?: TraceCallback,
 ): void {
-  if (arguments.length === 2) {
-    cb = options as TraceCallback
+  if (typeof options === 'function') {
+    cb = options
     options = {}
   }
 
-  const potrace = new Potrace(options as PotraceOptions)
+  const potrace = new Potrace(options)
 
   potrace.loadImage(file, (err) => {
     if (err) {
@@ -38,3 +46,49 @@ export function trace(
     (cb as TraceCallback).call(potrace, null, potrace.getSVG(), potrace)
   })
 }
+
+/**
+ * Promise-based version of {@link trace}
+ *
+ * @param file - Source image, file path or Jimp instance
+ * @param options - Optional Potrace options
+ * @returns Promise resolving to SVG string and the Potrace instance used
+ */
+export async function traceAsync(
+  file: string | Uint8Array | any, // Using 'any' for Jimp to avoid type reference issues
+  options?: PotraceOptions,
+): Promise<TraceResult> {
+  const potrace = new Potrace(options)
+
+  await potrace.loadImage(file)
+
+  return { svg: potrace.getSVG(), instance: potrace }
+}
+
+/**
+ * Traces binary mask directly, without luminance calculation and thresholding
+ *
+ * @param mask - Mask values row by row, non-zero values mark pixels to be traced
+ * @param width - Mask width
+ * @param height - Mask height
+ * @param options - Optional Potrace options
+ * @returns SVG image
+ */
+export function traceMask(
+  mask: ArrayLike<number>,
+  width: number,
+  height: number,
+  options?: PotraceOptions,
+): string {
+  if (mask.length < width * height) {
+    throw new Error(`Mask is too short for ${width}x${height} image`)
+  }
+
+  const bitmap = new Bitmap(width, height)
+
+  for (let i = 0; i < bitmap.size; i++) {
+    bitmap.data[i] = mask[i] ? 1 : 0
+  }
+
+  return Potrace.fromBitmap(bitmap, options).getSVG()
+}
@@ -2,6 +2,130 @@ import * as utils from '../utils'
 import { Histogram } from './Histogram'
 import { Point } from './Point'
 
+/**
+ * Local (adaptive) thresholding formulas
+ */
+export type AdaptiveThresholdMethod = 'sauvola' | 'niblack' | 'bradley'
+
+// Default k parameter for each adaptive thresholding formula
+const ADAPTIVE_THRESHOLD_K: Record<AdaptiveThresholdMethod, number> = {
+  sauvola: 0.2,
+  niblack: -0.2,
+  bradley: 0.15,
+}
+
+// Dynamic range of standard deviation used by Sauvola formula
+const SAUVOLA_R = 128
+
+/**
+ * Denoising and sharpening filters applied to luminance before thresholding
+ */
+export type BitmapFilter = 'gaussian' | 'median' | 'bilateral' | 'unsharp'
+
+/**
+ * Filter with its parameters, omitted ones take defaults of corresponding Bitmap method
+ */
+export type BitmapFilterOptions =
+  | { filter: 'gaussian', sigma?: number }
+  | { filter: 'median', radius?: number }
+  | { filter: 'bilateral', sigma?: number, sigmaColor?: number }
+  | { filter: 'unsharp', sigma?: number, amount?: number, threshold?: number }
+
+/**
+ * Morphological operations on binary bitmaps
+ */
+export type MorphologyOperation = 'erode' | 'dilate' | 'open' | 'close'
+
+/**
+ * Structuring element: shape name scaled by radius, or custom matrix with odd number of rows
+ * and columns where non-zero values belong to the element and the middle one is its origin
+ */
+export type StructuringElement = 'square' | 'cross' | 'disk' | number[][]
+
+/**
+ * Operation with its structuring element, omitted ones default to a square of radius 1
+ */
+export interface MorphologyOptions {
+  operation: MorphologyOperation
+  element?: StructuringElement
+  radius?: number
+}
+
+/**
+ * Lists offsets of structuring element pixels relative to its origin
+ */
+function elementOffsets(element: StructuringElement, radius: number): [number, number][] {
+  const offsets: [number, number][] = []
+
+  if (Array.isArray(element)) {
+    const rows = element.length
+    const columns = rows ? element[0].length : 0
+
+    if (!(rows % 2) || !(columns % 2) || element.some(row => !Array.isArray(row) || row.length !== columns)) {
+      throw new Error('Bad structuring element. Expected to be a matrix with odd number of rows and columns')
+    }
+
+    element.forEach((row, y) => row.forEach((value, x) => {
+      if (value) {
+        offsets.push([x - (columns - 1) / 2, y - (rows - 1) / 2])
+      }
+    }))
+
+    if (!offsets.length) {
+      throw new Error('Bad structuring element. Expected to have at least one non-zero value')
+    }
+
+    return offsets
+  }
+
+  if (!['square', 'cross', 'disk'].includes(element)) {
+    throw new Error(`Unknown structuring element: ${element}`)
+  }
+
+  if (!Number.isInteger(radius) || radius < 1) {
+    throw new Error('Bad radius value. Expected to be a positive integer')
+  }
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const included = element === 'square'
+        || (element === 'cross' && (dx === 0 || dy === 0))
+        || (element === 'disk' && dx * dx + dy * dy <= radius * radius)
+
+      if (included) {
+        offsets.push([dx, dy])
+      }
+    }
+  }
+
+  return offsets
+}
+
+/**
+ * Builds normalized 1D Gaussian kernel covering three standard deviations on each side
+ */
+function gaussianKernel(sigma: number): Float64Array {
+  const radius = Math.ceil(sigma * 3)
+  const kernel = new Float64Array(radius * 2 + 1)
+  let sum = 0
+
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma))
+    sum += kernel[i + radius]
+  }
+
+  return kernel.map(weight => weight / sum)
+}
+
+/**
+ * Throws unless value is a positive number
+ */
+function assertPositive(value: number, name: string): void {
+  if (typeof value !== 'number' || !(value > 0) || !Number.isFinite(value)) {
+    throw new Error(`Bad ${name} value. Expected to be a positive number`)
+  }
+}
+
 /**
  * Represents a bitmap where each pixel can be a number in range of 0..255
  * Used internally to store luminance data.
@@ -66,7 +190,8 @@ export class Bitmap {
    *
    * @param pointOrX - Point or x coordinate
    * @param y - Optional y coordinate (when pointOrX is x coordinate)
-   * @returns Index in the bitmap
+   * @returns Index in the bitmap, or -1 if point is outside of it. Columns past the right edge
+   *          do not wrap around to the next row
    */
   pointToIndex(pointOrX: number | Point, y?: number): number {
     let _x: number
@@ -81,7 +206,7 @@ export class Bitmap {
       _y = y as number
     }
 
-    if (!utils.between(_x, 0, this.width) || !utils.between(_y, 0, this.height)) {
+    if (!utils.between(_x, 0, this.width - 1) || !utils.between(_y, 0, this.height - 1)) {
       return -1
     }
 
@@ -105,6 +230,486 @@ export class Bitmap {
     return bm
   }
 
+  /**
+   * Binarizes bitmap comparing every pixel with a threshold calculated from mean and
+   * standard deviation of its neighbourhood:
+   *
+   * - Sauvola: `mean * (1 + k * (stdDev / 128 - 1))`
+   * - Niblack: `mean + k * stdDev`
+   * - Bradley: `mean * (1 - k)`
+   *
+   * Window sums are taken from integral images, so the cost does not depend on window size.
+   *
+   * @param method - Local threshold formula
+   * @param windowSize - Width and height of the neighbourhood, clipped at image borders
+   * @param k - Formula parameter, defaults to 0.2 for Sauvola, -0.2 for Niblack and 0.15 for Bradley
+   * @returns New bitmap where 1 marks pixels darker than their local threshold
+   */
+  adaptiveThreshold(method: AdaptiveThresholdMethod, windowSize: number, k?: number): Bitmap {
+    const { width, height, data } = this
+    const stride = width + 1
+    const sums = new Float64Array(stride * (height + 1))
+    const squareSums = new Float64Array(stride * (height + 1))
+    const factor = typeof k === 'number' ? k : ADAPTIVE_THRESHOLD_K[method]
+    const radius = Math.floor(windowSize / 2)
+    const result = new Bitmap(width, height)
+
+    // Integral images of values and squared values, with an extra zero row and column
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0
+      let rowSquareSum = 0
+
+      for (let x = 0; x < width; x++) {
+        const value = data[y * width + x]
+        const idx = (y + 1) * stride + x + 1
+
+        rowSum += value
+        rowSquareSum += value * value
+        sums[idx] = sums[idx - stride] + rowSum
+        squareSums[idx] = squareSums[idx - stride] + rowSquareSum
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - radius)
+      const y1 = Math.min(height - 1, y + radius) + 1
+
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - radius)
+        const x1 = Math.min(width - 1, x + radius) + 1
+        const count = (x1 - x0) * (y1 - y0)
+
+        const sum = sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0]
+        const squareSum = squareSums[y1 * stride + x1] - squareSums[y0 * stride + x1]
+          - squareSums[y1 * stride + x0] + squareSums[y0 * stride + x0]
+
+        const mean = sum / count
+        const stdDev = Math.sqrt(Math.max(0, squareSum / count - mean * mean))
+
+        const threshold = method === 'niblack'
+          ? mean + factor * stdDev
+          : method === 'bradley'
+            ? mean * (1 - factor)
+            : mean * (1 + factor * (stdDev / SAUVOLA_R - 1))
+
+        const i = y * width + x
+        result.data[i] = data[i] < threshold ? 1 : 0
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Applies filter by name or with parameters, see corresponding methods for defaults
+   *
+   * @param filter - Filter name or options
+   * @returns New filtered bitmap
+   */
+  applyFilter(filter: BitmapFilter | BitmapFilterOptions): Bitmap {
+    const options: BitmapFilterOptions = typeof filter === 'string' ? { filter } : filter
+
+    switch (options.filter) {
+      case 'gaussian':
+        return this.gaussianBlur(options.sigma)
+      case 'median':
+        return this.medianFilter(options.radius)
+      case 'bilateral':
+        return this.bilateralFilter(options.sigma, options.sigmaColor)
+      case 'unsharp':
+        return this.unsharpMask(options.sigma, options.amount, options.threshold)
+      default:
+        throw new Error(`Unknown filter: ${typeof filter === 'string' ? filter : filter.filter}`)
+    }
+  }
+
+  /**
+   * Smooths out noise by convolving with Gaussian kernel. Pixels beyond image borders
+   * repeat the edge ones.
+   *
+   * @param sigma - Standard deviation of the kernel in pixels
+   * @returns New blurred bitmap
+   */
+  gaussianBlur(sigma = 1): Bitmap {
+    assertPositive(sigma, 'sigma')
+
+    const blurred = this._blur(sigma)
+    return this.copy((_, i) => Math.round(blurred[i]))
+  }
+
+  /**
+   * Replaces every pixel with the median of its square neighbourhood. Removes salt and pepper noise
+   * and isolated specks while keeping edges sharp.
+   *
+   * Medians are found with a histogram of the window that slides along each row, so the cost per pixel
+   * grows with window width rather than its area.
+   *
+   * @param radius - Neighbourhood radius, window is `2 * radius + 1` pixels wide
+   * @returns New filtered bitmap
+   */
+  medianFilter(radius = 1): Bitmap {
+    if (!Number.isInteger(radius) || radius < 1) {
+      throw new Error('Bad radius value. Expected to be a positive integer')
+    }
+
+    const { width, height, data } = this
+    const result = new Bitmap(width, height)
+    const histogram = new Uint32Array(256)
+    // Index of the median in sorted window values
+    const half = ((radius * 2 + 1) ** 2) >> 1
+    const clampX = (x: number): number => x < 0 ? 0 : x >= width ? width - 1 : x
+    const clampY = (y: number): number => y < 0 ? 0 : y >= height ? height - 1 : y
+
+    for (let y = 0; y < height; y++) {
+      histogram.fill(0)
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        const row = clampY(y + dy) * width
+
+        for (let dx = -radius; dx <= radius; dx++) {
+          histogram[data[row + clampX(dx)]]++
+        }
+      }
+
+      // Median level and number of window values below it
+      let median = 0
+      let below = 0
+
+      for (let x = 0; x < width; x++) {
+        if (x > 0) {
+          const removed = clampX(x - radius - 1)
+          const added = clampX(x + radius)
+
+          for (let dy = -radius; dy <= radius; dy++) {
+            const row = clampY(y + dy) * width
+            const oldValue = data[row + removed]
+            const newValue = data[row + added]
+
+            histogram[oldValue]--
+            histogram[newValue]++
+            below += (newValue < median ? 1 : 0) - (oldValue < median ? 1 : 0)
+          }
+        }
+
+        while (below > half) {
+          median--
+          below -= histogram[median]
+        }
+
+        while (below + histogram[median] <= half) {
+          below += histogram[median]
+          median++
+        }
+
+        result.data[y * width + x] = median
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Edge-preserving smoothing: every pixel becomes a weighted mean of its neighbourhood, where
+   * weights fall off with both distance and difference in value, so noise is averaged out
+   * within flat areas but not across edges.
+   *
+   * @param sigma - Spatial standard deviation in pixels, neighbourhood radius is twice as large
+   * @param sigmaColor - Standard deviation of value differences, larger values blur stronger edges
+   * @returns New filtered bitmap
+   */
+  bilateralFilter(sigma = 2, sigmaColor = 25): Bitmap {
+    assertPositive(sigma, 'sigma')
+    assertPositive(sigmaColor, 'sigmaColor')
+
+    const { width, height, data } = this
+    const result = new Bitmap(width, height)
+    const radius = Math.ceil(sigma * 2)
+    const size = radius * 2 + 1
+    const spatialWeights = new Float64Array(size * size)
+    const rangeWeights = new Float64Array(256)
+
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        spatialWeights[(dy + radius) * size + dx + radius] = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma))
+      }
+    }
+
+    for (let diff = 0; diff < 256; diff++) {
+      rangeWeights[diff] = Math.exp(-(diff * diff) / (2 * sigmaColor * sigmaColor))
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = data[y * width + x]
+        let sum = 0
+        let totalWeight = 0
+
+        for (let dy = -radius; dy <= radius; dy++) {
+          const ny = y + dy < 0 ? 0 : y + dy >= height ? height - 1 : y + dy
+
+          for (let dx = -radius; dx <= radius; dx++) {
+            const nx = x + dx < 0 ? 0 : x + dx >= width ? width - 1 : x + dx
+            const neighbour = data[ny * width + nx]
+            const weight = spatialWeights[(dy + radius) * size + dx + radius] * rangeWeights[Math.abs(neighbour - value)]
+
+            sum += neighbour * weight
+            totalWeight += weight
+          }
+        }
+
+        result.data[y * width + x] = Math.round(sum / totalWeight)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Sharpens edges by adding the difference between bitmap and its Gaussian blur back to it.
+   * Helps to recover thin strokes softened by scanning or by other filters.
+   *
+   * @param sigma - Standard deviation of the blur in pixels
+   * @param amount - How much of the difference is added
+   * @param threshold - Differences smaller than this are left alone, so flat noisy areas are not sharpened
+   * @returns New sharpened bitmap
+   */
+  unsharpMask(sigma = 1, amount = 1, threshold = 0): Bitmap {
+    assertPositive(sigma, 'sigma')
+
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      throw new Error('Bad amount value. Expected to be a non-negative number')
+    }
+
+    if (typeof threshold !== 'number' || !utils.between(threshold, 0, 255)) {
+      throw new Error('Bad threshold value. Expected to be a number in range 0..255')
+    }
+
+    const blurred = this._blur(sigma)
+
+    return this.copy((value, i) => {
+      const diff = value - blurred[i]
+
+      return Math.abs(diff) < threshold
+        ? value
+        : utils.clamp(Math.round(value + diff * amount), 0, 255)
+    })
+  }
+
+  /**
+   * Applies morphological operation by name or with structuring element
+   *
+   * @param operation - Operation name or options
+   * @returns New binary bitmap
+   */
+  applyMorphology(operation: MorphologyOperation | MorphologyOptions): Bitmap {
+    const options: MorphologyOptions = typeof operation === 'string' ? { operation } : operation
+
+    switch (options.operation) {
+      case 'erode':
+        return this.erode(options.element, options.radius)
+      case 'dilate':
+        return this.dilate(options.element, options.radius)
+      case 'open':
+        return this.open(options.element, options.radius)
+      case 'close':
+        return this.close(options.element, options.radius)
+      default:
+        throw new Error(`Unknown morphology operation: ${typeof operation === 'string' ? operation : operation.operation}`)
+    }
+  }
+
+  /**
+   * Shrinks shapes of binary bitmap: pixel stays set only if every pixel covered by structuring element
+   * placed at it is set. Non-zero values are treated as set, pixels beyond borders do not affect the result.
+   *
+   * @param element - Structuring element
+   * @param radius - Radius of named element
+   * @returns New bitmap where 1 marks set pixels
+   */
+  erode(element: StructuringElement = 'square', radius = 1): Bitmap {
+    return this._morph(elementOffsets(element, radius), true)
+  }
+
+  /**
+   * Grows shapes of binary bitmap: pixel becomes set if structuring element placed at it (reflected)
+   * covers any set pixel. Non-zero values are treated as set.
+   *
+   * @param element - Structuring element
+   * @param radius - Radius of named element
+   * @returns New bitmap where 1 marks set pixels
+   */
+  dilate(element: StructuringElement = 'square', radius = 1): Bitmap {
+    return this._morph(elementOffsets(element, radius).map(([dx, dy]) => [-dx, -dy]), false)
+  }
+
+  /**
+   * Erosion followed by dilation. Removes bridges and protrusions thinner than structuring element.
+   *
+   * @param element - Structuring element
+   * @param radius - Radius of named element
+   * @returns New bitmap where 1 marks set pixels
+   */
+  open(element: StructuringElement = 'square', radius = 1): Bitmap {
+    return this.erode(element, radius).dilate(element, radius)
+  }
+
+  /**
+   * Dilation followed by erosion. Closes gaps and holes smaller than structuring element.
+   *
+   * @param element - Structuring element
+   * @param radius - Radius of named element
+   * @returns New bitmap where 1 marks set pixels
+   */
+  close(element: StructuringElement = 'square', radius = 1): Bitmap {
+    return this.dilate(element, radius).erode(element, radius)
+  }
+
+  /**
+   * Thins shapes of binary bitmap down to one pixel wide skeleton using Zhang-Suen algorithm.
+   * Each iteration peels off boundary pixels, first from south-east and then from north-west sides,
+   * as long as removing them does not break the shape apart or shorten its ends.
+   * Non-zero values are treated as set, pixels beyond borders as unset.
+   *
+   * @returns New bitmap where 1 marks skeleton pixels
+   */
+  thin(): Bitmap {
+    const { width, height } = this
+    const result = this.copy(value => value ? 1 : 0)
+    const data = result.data
+    const at = (x: number, y: number): number => x < 0 || y < 0 || x >= width || y >= height ? 0 : data[y * width + x]
+    const removed: number[] = []
+    // Neighbours of current pixel clockwise, starting from the one above
+    const p = new Uint8Array(8)
+    let changed = true
+
+    while (changed) {
+      changed = false
+
+      for (let pass = 0; pass < 2; pass++) {
+        removed.length = 0
+
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            if (!data[y * width + x]) {
+              continue
+            }
+
+            p[0] = at(x, y - 1)
+            p[1] = at(x + 1, y - 1)
+            p[2] = at(x + 1, y)
+            p[3] = at(x + 1, y + 1)
+            p[4] = at(x, y + 1)
+            p[5] = at(x - 1, y + 1)
+            p[6] = at(x - 1, y)
+            p[7] = at(x - 1, y - 1)
+
+            let count = 0
+            let transitions = 0
+
+            for (let i = 0; i < 8; i++) {
+              count += p[i]
+              transitions += !p[i] && p[(i + 1) % 8] ? 1 : 0
+            }
+
+            if (count < 2 || count > 6 || transitions !== 1) {
+              continue
+            }
+
+            const removable = pass === 0
+              ? !(p[0] && p[2] && p[4]) && !(p[2] && p[4] && p[6])
+              : !(p[0] && p[2] && p[6]) && !(p[0] && p[4] && p[6])
+
+            if (removable) {
+              removed.push(y * width + x)
+            }
+          }
+        }
+
+        for (const i of removed) {
+          data[i] = 0
+        }
+
+        changed = changed || removed.length > 0
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Erodes (every offset pixel has to be set) or dilates (any offset pixel has to be set) bitmap,
+   * skipping offsets beyond borders
+   */
+  private _morph(offsets: [number, number][], erode: boolean): Bitmap {
+    const { width, height, data } = this
+    const result = new Bitmap(width, height)
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let value = erode
+
+        for (const [dx, dy] of offsets) {
+          const nx = x + dx
+          const ny = y + dy
+
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) {
+            continue
+          }
+
+          if (!data[ny * width + nx] === erode) {
+            value = !erode
+            break
+          }
+        }
+
+        result.data[y * width + x] = value ? 1 : 0
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Convolves bitmap with Gaussian kernel, one dimension at a time
+   *
+   * @returns Blurred values without rounding
+   */
+  private _blur(sigma: number): Float32Array {
+    const { width, height, data } = this
+    const kernel = gaussianKernel(sigma)
+    const radius = (kernel.length - 1) / 2
+    const horizontal = new Float32Array(this.size)
+    const result = new Float32Array(this.size)
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0
+
+        for (let k = -radius; k <= radius; k++) {
+          const nx = x + k < 0 ? 0 : x + k >= width ? width - 1 : x + k
+          sum += data[y * width + nx] * kernel[k + radius]
+        }
+
+        horizontal[y * width + x] = sum
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0
+
+        for (let k = -radius; k <= radius; k++) {
+          const ny = y + k < 0 ? 0 : y + k >= height ? height - 1 : y + k
+          sum += horizontal[ny * width + x] * kernel[k + radius]
+        }
+
+        result[y * width + x] = sum
+      }
+    }
+
+    return result
+  }
+
   /**
    * Get histogram for this bitmap
    * @returns Histogram instance
@@ -1,12 +1,23 @@
-import type { Jimp } from 'jimp'
+import type { LuminanceMode } from '../utils'
 import * as utils from '../utils'
 import { Bitmap } from './Bitmap'
 
-export type HistogramMode = 'luminance' | 'r' | 'g' | 'b'
+/**
+ * Default luminance formula or any of {@link LuminanceMode} formulas and channels
+ */
+export type HistogramMode = 'luminance' | LuminanceMode
+
+/**
+ * Automatic global thresholding algorithms
+ */
+export type ThresholdMethod = 'otsu' | 'kapur' | 'triangle' | 'isodata' | 'minimum' | 'percentile'
 
 const COLOR_DEPTH = 256
 const COLOR_RANGE_END = COLOR_DEPTH - 1
 
+// Histogram is smoothed at most this many times while looking for two peaks in minimum method
+const MINIMUM_MAX_ITERATIONS = 10000
+
 /**
  * Calculates array index for pair of indexes
  * We multiple column (x) by 256 and then add row to it,
@@ -37,7 +48,30 @@ function normalizeMinMax(levelMin?: number, levelMax?: number): [number, number]
   return [minLevel, maxLevel]
 }
 
-interface HistogramStats {
+/**
+ * Image with RGBA pixel data, such as Jimp instance
+ */
+export interface RGBAImage {
+  bitmap: {
+    data: ArrayLike<number>
+    width: number
+    height: number
+  }
+}
+
+/**
+ * Serialized histogram produced by {@link Histogram.toJSON}
+ */
+export interface HistogramJSON {
+  pixels: number
+  /** Number of pixels of every level from 0 to 255 */
+  counts: number[]
+}
+
+/**
+ * Statistics of a histogram segment
+ */
+export interface HistogramStats {
   pixels: number
   levels: {
     mean: number
@@ -60,8 +94,15 @@ export class Histogram {
   static readonly MODE_R: HistogramMode = 'r'
   static readonly MODE_G: HistogramMode = 'g'
   static readonly MODE_B: HistogramMode = 'b'
-
-  data: Uint8Array | Uint16Array | Uint32Array | null = null
+  static readonly MODE_ALPHA: HistogramMode = 'alpha'
+  static readonly THRESHOLD_OTSU: ThresholdMethod = 'otsu'
+  static readonly THRESHOLD_KAPUR: ThresholdMethod = 'kapur'
+  static readonly THRESHOLD_TRIANGLE: ThresholdMethod = 'triangle'
+  static readonly THRESHOLD_ISODATA: ThresholdMethod = 'isodata'
+  static readonly THRESHOLD_MINIMUM: ThresholdMethod = 'minimum'
+  static readonly THRESHOLD_PERCENTILE: ThresholdMethod = 'percentile'
+
+  data: Uint8Array | Uint16Array | Uint32Array | Float64Array | null = null
   pixels = 0
   private _sortedIndexes: number[] | null = null
   private _cachedStats: Record<string, HistogramStats> = {}
@@ -71,9 +112,9 @@ export class Histogram {
    * Create a histogram from an image source or create an empty one
    *
    * @param imageSource - Image to collect data from or size to create empty histogram
-   * @param mode - Color channel mode (for Jimp instances)
+   * @param mode - Color channel mode (for RGBA images)
    */
-  constructor(imageSource: number | Bitmap | typeof Jimp.prototype, mode?: HistogramMode) {
+  constructor(imageSource: number | Bitmap | RGBAImage, mode?: HistogramMode) {
     if (typeof imageSource === 'number') {
       this._createArray(imageSource)
     }
@@ -89,14 +130,89 @@ export class Histogram {
   }
 
   /**
-   * Initializes data array for an image of given pixel size
+   * Creates histogram from pixel counts of every level, for example collected elsewhere or merged
+   *
+   * @param counts - 256 non-negative integers
+   * @returns New histogram
    */
-  private _createArray(imageSize: number): Uint8Array | Uint16Array | Uint32Array {
-    const ArrayType = imageSize <= 2 ** 8
+  static fromCounts(counts: ArrayLike<number>): Histogram {
+    if (!counts || counts.length !== COLOR_DEPTH) {
+      throw new Error(`Histogram counts should have ${COLOR_DEPTH} values`)
+    }
+
+    let pixels = 0
+
+    for (let i = 0; i < COLOR_DEPTH; i++) {
+      if (!Number.isSafeInteger(counts[i]) || counts[i] < 0) {
+        throw new Error(`Bad histogram count at level ${i}. Expected to be a non-negative integer up to Number.MAX_SAFE_INTEGER`)
+      }
+
+      pixels += counts[i]
+    }
+
+    if (pixels > Number.MAX_SAFE_INTEGER) {
+      throw new Error('Sum of histogram counts exceeds Number.MAX_SAFE_INTEGER')
+    }
+
+    const histogram = new Histogram(pixels)
+    histogram.data!.set(Array.from(counts))
+
+    return histogram
+  }
+
+  /**
+   * Restores histogram serialized with {@link Histogram.toJSON}
+   *
+   * @param json - Serialized histogram or JSON string of it
+   * @returns New histogram
+   */
+  static fromJSON(json: HistogramJSON | string): Histogram {
+    const parsed: HistogramJSON = typeof json === 'string' ? JSON.parse(json) : json
+    const histogram = Histogram.fromCounts(parsed?.counts)
+
+    if (typeof parsed.pixels !== 'undefined' && parsed.pixels !== histogram.pixels) {
+      throw new Error(`Histogram pixel count ${parsed.pixels} does not match sum of counts ${histogram.pixels}`)
+    }
+
+    return histogram
+  }
+
+  /**
+   * Serializes histogram into plain object, called by JSON.stringify
+   */
+  toJSON(): HistogramJSON {
+    return {
+      pixels: this.pixels,
+      counts: Array.from(this.data!),
+    }
+  }
+
+  /**
+   * Adds up counts of this and another histogram, such as ones collected from tiles or pages
+   * of the same document. Neither of histograms is modified.
+   *
+   * @param other - Histogram to merge with
+   * @returns New histogram
+   */
+  merge(other: Histogram): Histogram {
+    if (!(other instanceof Histogram)) {
+      throw new TypeError('Expected Histogram instance')
+    }
+
+    return Histogram.fromCounts(Array.from(this.data!, (count, i) => count + other.data![i]))
+  }
+
+  /**
+   * Initializes data array for an image of given pixel size, wide enough for all of its pixels to share one level
+   */
+  private _createArray(imageSize: number): Uint8Array | Uint16Array | Uint32Array | Float64Array {
+    const ArrayType = imageSize < 2 ** 8
       ? Uint8Array
-      : imageSize <= 2 ** 16
+      : imageSize < 2 ** 16
         ? Uint16Array
-        : Uint32Array
+        : imageSize < 2 ** 32
+          ? Uint32Array
+          : Float64Array
 
     this.pixels = imageSize
     this.data = new ArrayType(COLOR_DEPTH)
@@ -104,35 +220,24 @@ export class Histogram {
   }
 
   /**
-   * Aggregates color data from Jimp instance
+   * Aggregates color data from RGBA image, such as Jimp instance
    */
-  private _collectValuesJimp(source: typeof Jimp.prototype, mode: HistogramMode): void {
+  private _collectValuesJimp(source: RGBAImage, mode: HistogramMode): void {
     const pixelData = source.bitmap.data
-    const data = this._createArray(source.bitmap.width * source.bitmap.height)
-
-    // Jimp has a scan method to iterate over every pixel
-    source.scan(0, 0, source.bitmap.width, source.bitmap.height, (x: number, y: number, idx: number) => {
-      let val: number
-
-      if (mode === Histogram.MODE_R) {
-        val = pixelData[idx]
-      }
-      else if (mode === Histogram.MODE_G) {
-        val = pixelData[idx + 1]
-      }
-      else if (mode === Histogram.MODE_B) {
-        val = pixelData[idx + 2]
-      }
-      else {
-        val = utils.luminance(
-          pixelData[idx],
-          pixelData[idx + 1],
-          pixelData[idx + 2],
-        )
-      }
+    const size = source.bitmap.width * source.bitmap.height
+    const data = this._createArray(size)
+
+    for (let idx = 0; idx < size * 4; idx += 4) {
+      const val = utils.luminance(
+        pixelData[idx],
+        pixelData[idx + 1],
+        pixelData[idx + 2],
+        mode === 'luminance' ? utils.DEFAULT_LUMINANCE_MODE : mode,
+        pixelData[idx + 3],
+      )
 
       data[val]++
-    })
+    }
   }
 
   /**
@@ -300,15 +405,221 @@ export class Histogram {
   }
 
   /**
-   * Automatic threshold detection using between-class variance method
+   * Automatic threshold detection. Levels up to and including the threshold form the dark class.
+   *
+   * - `otsu`: maximizes between-class variance
+   * - `kapur`: maximizes sum of entropies of both classes
+   * - `triangle`: finds level farthest from the line between histogram peak and the end of its longer tail,
+   *   suited for images with a small fraction of ink
+   * - `isodata`: iterates towards the level halfway between means of both classes
+   * - `minimum`: smooths histogram until it has two peaks and takes the lowest point between them
+   * - `percentile`: makes the given percentage of pixels dark
    *
    * @param levelMin - Histogram segment start
    * @param levelMax - Histogram segment end
+   * @param method - Thresholding algorithm
+   * @param percentile - Percentage of pixels in the dark class, used by `percentile` method
    * @returns Calculated threshold value or -1 if none found
    */
-  autoThreshold(levelMin?: number, levelMax?: number): number {
-    const thresholds = this.multilevelThresholding(1, levelMin, levelMax)
-    return thresholds.length ? thresholds[0] : -1
+  autoThreshold(levelMin?: number, levelMax?: number, method: ThresholdMethod = Histogram.THRESHOLD_OTSU, percentile = 50): number {
+    if (method === Histogram.THRESHOLD_OTSU) {
+      const thresholds = this.multilevelThresholding(1, levelMin, levelMax)
+      return thresholds.length ? thresholds[0] : -1
+    }
+
+    [levelMin, levelMax] = normalizeMinMax(levelMin, levelMax)
+
+    switch (method) {
+      case Histogram.THRESHOLD_KAPUR:
+        return this._thresholdKapur(levelMin, levelMax)
+      case Histogram.THRESHOLD_TRIANGLE:
+        return this._thresholdTriangle(levelMin, levelMax)
+      case Histogram.THRESHOLD_ISODATA:
+        return this._thresholdIsodata(levelMin, levelMax)
+      case Histogram.THRESHOLD_MINIMUM:
+        return this._thresholdMinimum(levelMin, levelMax)
+      case Histogram.THRESHOLD_PERCENTILE:
+        return this._thresholdPercentile(levelMin, levelMax, percentile)
+      default:
+        throw new Error(`Unsupported threshold method: ${method}`)
+    }
+  }
+
+  /**
+   * Kapur, Sahoo and Wong maximum entropy thresholding
+   */
+  private _thresholdKapur(levelMin: number, levelMax: number): number {
+    const data = this.data!
+    let total = 0
+    let entropySum = 0
+
+    for (let i = levelMin; i <= levelMax; i++) {
+      total += data[i]
+    }
+
+    // Sum of p * ln(p) over the whole segment, so entropy of upper class is whatever lower one leaves out
+    for (let i = levelMin; i <= levelMax; i++) {
+      const p = data[i] / total
+      entropySum += p > 0 ? p * Math.log(p) : 0
+    }
+
+    let best = -1
+    let bestEntropy = -Infinity
+    let lowCount = 0
+    let lowEntropySum = 0
+
+    for (let t = levelMin; t < levelMax; t++) {
+      const p = data[t] / total
+
+      lowCount += data[t]
+      lowEntropySum += p > 0 ? p * Math.log(p) : 0
+
+      if (lowCount === 0 || lowCount === total) {
+        continue
+      }
+
+      const pLow = lowCount / total
+      const pHigh = 1 - pLow
+      const entropy = Math.log(pLow) - lowEntropySum / pLow
+        + Math.log(pHigh) - (entropySum - lowEntropySum) / pHigh
+
+      if (entropy > bestEntropy) {
+        best = t
+        bestEntropy = entropy
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Zack triangle thresholding
+   */
+  private _thresholdTriangle(levelMin: number, levelMax: number): number {
+    const data = this.data!
+    let first = -1
+    let last = -1
+    let peak = levelMin
+
+    for (let i = levelMin; i <= levelMax; i++) {
+      if (data[i] > 0) {
+        first = first === -1 ? i : first
+        last = i
+      }
+
+      if (data[i] > data[peak]) {
+        peak = i
+      }
+    }
+
+    if (first === last) {
+      return -1
+    }
+
+    // Line goes from the peak to the end of the longer tail, threshold is the level furthest below it
+    const end = peak - first >= last - peak ? first : last
+    const from = Math.min(peak, end)
+    const to = Math.max(peak, end)
+    let best = -1
+    let bestDistance = -1
+
+    for (let i = from; i <= to; i++) {
+      const lineHeight = data[end] + (data[peak] - data[end]) * (i - end) / (peak - end)
+      const distance = lineHeight - data[i]
+
+      if (distance > bestDistance) {
+        best = i
+        bestDistance = distance
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Ridler and Calvard iterative intermeans (isodata) thresholding
+   */
+  private _thresholdIsodata(levelMin: number, levelMax: number): number {
+    const stats = this.getStats(levelMin, levelMax)
+
+    if (stats.levels.unique < 2) {
+      return -1
+    }
+
+    let threshold = Math.floor(stats.levels.mean)
+
+    for (let i = 0; i < COLOR_DEPTH; i++) {
+      const low = this.getStats(levelMin, threshold).levels.mean
+      const high = this.getStats(threshold + 1, levelMax).levels.mean
+      const next = utils.clamp(Math.floor((low + high) / 2), levelMin, levelMax - 1)
+
+      if (next === threshold) {
+        break
+      }
+
+      threshold = next
+    }
+
+    return threshold
+  }
+
+  /**
+   * Prewitt and Mendelsohn minimum thresholding
+   */
+  private _thresholdMinimum(levelMin: number, levelMax: number): number {
+    let levels = Array.from(this.data!.slice(levelMin, levelMax + 1))
+
+    for (let iteration = 0; iteration < MINIMUM_MAX_ITERATIONS; iteration++) {
+      const peaks: number[] = []
+
+      for (let i = 1; i < levels.length - 1; i++) {
+        if (levels[i - 1] < levels[i] && levels[i + 1] < levels[i]) {
+          peaks.push(i)
+        }
+      }
+
+      if (peaks.length === 2) {
+        let minimum = peaks[0]
+
+        for (let i = peaks[0]; i <= peaks[1]; i++) {
+          if (levels[i] < levels[minimum]) {
+            minimum = i
+          }
+        }
+
+        return levelMin + minimum
+      }
+
+      // Three point running mean, treating levels outside of the segment as empty
+      levels = levels.map((value, i) => ((levels[i - 1] || 0) + value + (levels[i + 1] || 0)) / 3)
+    }
+
+    return -1
+  }
+
+  /**
+   * Percentile thresholding, puts given percentage of pixels into the dark class
+   */
+  private _thresholdPercentile(levelMin: number, levelMax: number, percentile: number): number {
+    const data = this.data!
+    const total = this.getStats(levelMin, levelMax).pixels
+
+    if (total === 0) {
+      return -1
+    }
+
+    const target = total * utils.clamp(percentile, 0, 100) / 100
+    let count = 0
+
+    for (let i = levelMin; i <= levelMax; i++) {
+      count += data[i]
+
+      if (count >= target) {
+        return i
+      }
+    }
+
+    return levelMax
   }
 
   /**
@@ -0,0 +1,395 @@
+import type { PixelData } from '../Potrace'
+import { Bitmap } from './Bitmap'
+
+/**
+ * Color quantization algorithms
+ */
+export type QuantizeMethod = 'median-cut' | 'kmeans'
+
+/**
+ * Red, green and blue components in range of 0..255
+ */
+export type RGBColor = [number, number, number]
+
+// Colors are grouped into bins of 5 bits per channel before quantization
+const BIN_BITS = 5
+const BIN_SHIFT = 8 - BIN_BITS
+const BIN_COUNT = 1 << (BIN_BITS * 3)
+
+// Upper bound of k-means refinement passes, it usually converges much sooner
+const KMEANS_MAX_ITERATIONS = 16
+
+// Pixels less opaque than this are left out of the palette
+const ALPHA_CUTOFF = 128
+
+/**
+ * Colors with pixel counts, used as quantization input
+ */
+interface ColorSamples {
+  colors: RGBColor[]
+  counts: number[]
+}
+
+/**
+ * Calculates bin index of a color
+ */
+function binIndex(r: number, g: number, b: number): number {
+  return ((r >> BIN_SHIFT) << (BIN_BITS * 2)) | ((g >> BIN_SHIFT) << BIN_BITS) | (b >> BIN_SHIFT)
+}
+
+/**
+ * Squared euclidean distance between two colors
+ */
+function distance(a: RGBColor, b: RGBColor): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+}
+
+/**
+ * Returns index of the closest color
+ */
+function nearest(color: RGBColor, colors: RGBColor[]): number {
+  let best = 0
+  let bestDistance = Infinity
+
+  for (let i = 0; i < colors.length; i++) {
+    const d = distance(color, colors[i])
+
+    if (d < bestDistance) {
+      best = i
+      bestDistance = d
+    }
+  }
+
+  return best
+}
+
+/**
+ * Calculates mean color of samples with given indexes, weighted by pixel counts
+ */
+function weightedMean(samples: ColorSamples, indexes: number[]): RGBColor {
+  const sum: RGBColor = [0, 0, 0]
+  let total = 0
+
+  for (const i of indexes) {
+    const count = samples.counts[i]
+    sum[0] += samples.colors[i][0] * count
+    sum[1] += samples.colors[i][1] * count
+    sum[2] += samples.colors[i][2] * count
+    total += count
+  }
+
+  return [sum[0] / total, sum[1] / total, sum[2] / total]
+}
+
+/**
+ * Median cut: starting with a box holding all colors, repeatedly splits the box with the most pixels
+ * times widest channel range across that channel
+ */
+function medianCut(samples: ColorSamples, size: number): RGBColor[] {
+  const boxes: number[][] = [samples.colors.map((_, i) => i)]
+
+  const channelRanges = (box: number[]): number[] => [0, 1, 2].map((channel) => {
+    let min = Infinity
+    let max = -Infinity
+
+    for (const i of box) {
+      min = Math.min(min, samples.colors[i][channel])
+      max = Math.max(max, samples.colors[i][channel])
+    }
+
+    return max - min
+  })
+
+  while (boxes.length < size) {
+    let boxIndex = -1
+    let bestScore = 0
+    let splitChannel = 0
+
+    boxes.forEach((box, i) => {
+      const ranges = channelRanges(box)
+      const channel = ranges.indexOf(Math.max(...ranges))
+      const pixels = box.reduce((total, sample) => total + samples.counts[sample], 0)
+      const score = pixels * ranges[channel]
+
+      if (box.length > 1 && score > bestScore) {
+        boxIndex = i
+        bestScore = score
+        splitChannel = channel
+      }
+    })
+
+    if (boxIndex === -1) {
+      break
+    }
+
+    const box = boxes[boxIndex].sort((a, b) => samples.colors[a][splitChannel] - samples.colors[b][splitChannel])
+    let totalCount = 0
+    let totalSum = 0
+
+    for (const sample of box) {
+      totalCount += samples.counts[sample]
+      totalSum += samples.counts[sample] * samples.colors[sample][splitChannel]
+    }
+
+    // Cut where between-class variance of the channel is the largest rather than at the exact median,
+    // so a few outlying colors are not merged into a much larger group
+    let count = 0
+    let sum = 0
+    let split = 1
+    let bestVariance = -1
+
+    for (let i = 1; i < box.length; i++) {
+      count += samples.counts[box[i - 1]]
+      sum += samples.counts[box[i - 1]] * samples.colors[box[i - 1]][splitChannel]
+
+      const meanDiff = sum / count - (totalSum - sum) / (totalCount - count)
+      const variance = count * (totalCount - count) * meanDiff * meanDiff
+
+      if (variance > bestVariance) {
+        bestVariance = variance
+        split = i
+      }
+    }
+
+    boxes.splice(boxIndex, 1, box.slice(0, split), box.slice(split))
+  }
+
+  return boxes.map(box => weightedMean(samples, box))
+}
+
+/**
+ * K-means: moves every center to the mean of colors closest to it until assignments stop changing
+ */
+function kMeans(samples: ColorSamples, centers: RGBColor[]): RGBColor[] {
+  const assignments = new Int32Array(samples.colors.length).fill(-1)
+
+  for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+    const clusters: number[][] = centers.map(() => [])
+    let changed = false
+
+    samples.colors.forEach((color, i) => {
+      const cluster = nearest(color, centers)
+
+      changed = changed || assignments[i] !== cluster
+      assignments[i] = cluster
+      clusters[cluster].push(i)
+    })
+
+    if (!changed) {
+      break
+    }
+
+    // Centers without any colors are kept where they are
+    centers = centers.map((center, i) => clusters[i].length ? weightedMean(samples, clusters[i]) : center)
+  }
+
+  return centers
+}
+
+/**
+ * Image reduced to a limited set of colors
+ */
+export class Palette {
+  static readonly METHOD_MEDIAN_CUT: QuantizeMethod = 'median-cut'
+  static readonly METHOD_KMEANS: QuantizeMethod = 'kmeans'
+
+  /** Palette colors, from the one covering the most pixels to the one covering the least */
+  colors: RGBColor[]
+  /** Number of pixels mapped to each color */
+  counts: number[]
+  /** Palette index of every pixel, -1 for transparent ones */
+  indices: Int16Array
+  width: number
+  height: number
+
+  /**
+   * @param colors - Palette colors
+   * @param counts - Number of pixels mapped to each color
+   * @param indices - Palette index of every pixel
+   * @param width - Image width
+   * @param height - Image height
+   */
+  constructor(colors: RGBColor[], counts: number[], indices: Int16Array, width: number, height: number) {
+    this.colors = colors
+    this.counts = counts
+    this.indices = indices
+    this.width = width
+    this.height = height
+  }
+
+  /**
+   * Quantizes pixel data into given number of colors (or fewer, if image does not have as many)
+   * and maps every pixel to the closest one. Pixels with alpha below 128 are left out.
+   *
+   * @param pixels - Pixel data
+   * @param size - Maximum number of colors
+   * @param method - Quantization algorithm, k-means starts from median cut palette and refines it
+   * @returns Palette with colors sorted by number of pixels
+   */
+  static quantize(pixels: PixelData, size: number, method: QuantizeMethod = Palette.METHOD_MEDIAN_CUT): Palette {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error('Bad palette size. Expected to be a positive integer')
+    }
+
+    if (method !== Palette.METHOD_MEDIAN_CUT && method !== Palette.METHOD_KMEANS) {
+      throw new Error(`Bad quantization method: ${method}`)
+    }
+
+    const { data, width, height } = pixels
+    const channels = pixels.channels || 4
+    const pixelBins = new Int32Array(width * height).fill(-1)
+    const binCounts = new Uint32Array(BIN_COUNT)
+    const binSums = new Float64Array(BIN_COUNT * 3)
+
+    for (let i = 0; i < pixelBins.length; i++) {
+      const idx = i * channels
+      const alpha = channels === 4 ? data[idx + 3] : channels === 2 ? data[idx + 1] : 255
+
+      if (alpha < ALPHA_CUTOFF) {
+        continue
+      }
+
+      const r = data[idx]
+      const g = channels >= 3 ? data[idx + 1] : r
+      const b = channels >= 3 ? data[idx + 2] : r
+      const bin = binIndex(r, g, b)
+
+      pixelBins[i] = bin
+      binCounts[bin]++
+      binSums[bin * 3] += r
+      binSums[bin * 3 + 1] += g
+      binSums[bin * 3 + 2] += b
+    }
+
+    // Quantization works on mean colors of non-empty bins, weighted by their pixel counts
+    const samples: ColorSamples = { colors: [], counts: [] }
+    const binSamples = new Int32Array(BIN_COUNT).fill(-1)
+
+    for (let bin = 0; bin < BIN_COUNT; bin++) {
+      const count = binCounts[bin]
+
+      if (count) {
+        binSamples[bin] = samples.colors.length
+        samples.colors.push([binSums[bin * 3] / count, binSums[bin * 3 + 1] / count, binSums[bin * 3 + 2] / count])
+        samples.counts.push(count)
+      }
+    }
+
+    if (!samples.colors.length) {
+      return new Palette([], [], new Int16Array(width * height).fill(-1), width, height)
+    }
+
+    let centers = medianCut(samples, size)
+
+    if (method === Palette.METHOD_KMEANS) {
+      centers = kMeans(samples, centers)
+    }
+
+    // Every sample goes to its closest center, empty centers are dropped and the rest sorted by pixel count
+    const sampleCenters = samples.colors.map(color => nearest(color, centers))
+    const centerCounts = centers.map(() => 0)
+
+    sampleCenters.forEach((center, i) => {
+      centerCounts[center] += samples.counts[i]
+    })
+
+    const order = centers
+      .map((_, i) => i)
+      .filter(i => centerCounts[i] > 0)
+      .sort((a, b) => centerCounts[b] - centerCounts[a])
+
+    const remap = new Int32Array(centers.length).fill(-1)
+    order.forEach((center, i) => {
+      remap[center] = i
+    })
+
+    const indices = new Int16Array(width * height)
+
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = pixelBins[i] === -1 ? -1 : remap[sampleCenters[binSamples[pixelBins[i]]]]
+    }
+
+    return new Palette(
+      order.map(i => centers[i].map(channel => Math.round(channel)) as RGBColor),
+      order.map(i => centerCounts[i]),
+      indices,
+      width,
+      height,
+    )
+  }
+
+  /**
+   * Finds the most common color of pixel data, grouping similar colors together.
+   * Pixels with alpha below 128 are left out.
+   *
+   * @param pixels - Pixel data
+   * @param include - Optional filter telling whether pixel with given index should be sampled
+   * @returns Mean color of the largest group of similar colors, or null if no pixels were sampled
+   */
+  static dominantColor(pixels: PixelData, include?: (index: number) => boolean): RGBColor | null {
+    const { data, width, height } = pixels
+    const channels = pixels.channels || 4
+    const binCounts = new Uint32Array(BIN_COUNT)
+    const binSums = new Float64Array(BIN_COUNT * 3)
+    let dominant = -1
+
+    for (let i = 0; i < width * height; i++) {
+      const idx = i * channels
+      const alpha = channels === 4 ? data[idx + 3] : channels === 2 ? data[idx + 1] : 255
+
+      if (alpha < ALPHA_CUTOFF || (include && !include(i))) {
+        continue
+      }
+
+      const r = data[idx]
+      const g = channels >= 3 ? data[idx + 1] : r
+      const b = channels >= 3 ? data[idx + 2] : r
+      const bin = binIndex(r, g, b)
+
+      binCounts[bin]++
+      binSums[bin * 3] += r
+      binSums[bin * 3 + 1] += g
+      binSums[bin * 3 + 2] += b
+
+      if (dominant === -1 || binCounts[bin] > binCounts[dominant]) {
+        dominant = bin
+      }
+    }
+
+    if (dominant === -1) {
+      return null
+    }
+
+    const count = binCounts[dominant]
+
+    return [
+      Math.round(binSums[dominant * 3] / count),
+      Math.round(binSums[dominant * 3 + 1] / count),
+      Math.round(binSums[dominant * 3 + 2] / count),
+    ]
+  }
+
+  /**
+   * Number of colors in the palette
+   */
+  get size(): number {
+    return this.colors.length
+  }
+
+  /**
+   * Creates binary mask of pixels mapped to any of given palette colors
+   *
+   * @param indexes - Palette index or array of indexes
+   * @returns Bitmap where 1 marks matching pixels
+   */
+  mask(indexes: number | number[]): Bitmap {
+    const included = new Set(Array.isArray(indexes) ? indexes : [indexes])
+    const bitmap = new Bitmap(this.width, this.height)
+
+    for (let i = 0; i < bitmap.size; i++) {
+      bitmap.data[i] = included.has(this.indices[i]) ? 1 : 0
+    }
+
+    return bitmap
+  }
+}
@@ -20,6 +20,8 @@ export class Path {
   lon?: number[] // Longest edges
   m?: number // Number of segments in polygon
   po?: number[] // Polygon point indices
+  smoothCurve?: Curve | null // Curve before optimization
+  open?: boolean // Centerline with free ends, its points are not a closed outline
 
   constructor() {
     this.area = 0
@@ -2,6 +2,7 @@ export * from './Bitmap'
 export * from './Curve'
 export * from './Histogram'
 export * from './Opti'
+export * from './Palette'
 export * from './Path'
 export * from './Point'
 export * from './Quad'
@@ -5,10 +5,70 @@ import { Point } from './types/Point'
 const attrRegexps: Record<string, RegExp> = {}
 
 /**
- * Calculates luminance from RGB values
+ * Formula or channel used to convert color pixel to a single luminance value
  */
-export function luminance(r: number, g: number, b: number): number {
-  return Math.round(0.2126 * r + 0.7153 * g + 0.0721 * b)
+export type LuminanceMode = 'bt601' | 'bt709' | 'average' | 'lightness' | 'r' | 'g' | 'b' | 'alpha'
+
+/**
+ * Luminance formula used by Potrace and Histogram unless another one is chosen,
+ * so that automatic thresholds are calculated from the same values that get thresholded
+ */
+export const DEFAULT_LUMINANCE_MODE: LuminanceMode = 'bt601'
+
+/**
+ * Calculates luminance from RGB(A) values, ITU-R BT.601 luma coefficients are used by default
+ */
+export function luminance(r: number, g: number, b: number, mode: LuminanceMode = DEFAULT_LUMINANCE_MODE, a = 255): number {
+  switch (mode) {
+    case 'bt601':
+      // Truncated like in the original tracer, so default output stays the same
+      return Math.floor(0.299 * r + 0.587 * g + 0.114 * b)
+    case 'average':
+      return Math.round((r + g + b) / 3)
+    case 'lightness':
+      return Math.round((Math.max(r, g, b) + Math.min(r, g, b)) / 2)
+    case 'r':
+      return Math.round(r)
+    case 'g':
+      return Math.round(g)
+    case 'b':
+      return Math.round(b)
+    case 'alpha':
+      return Math.round(a)
+    case 'bt709':
+    default:
+      return Math.round(0.2126 * r + 0.7153 * g + 0.0721 * b)
+  }
+}
+
+/**
+ * Parses hex color string (`#rgb` or `#rrggbb`) into RGB components
+ *
+ * @returns Array of red, green and blue values or null if color can not be parsed
+ */
+export function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#([\da-f]{3}|[\da-f]{6})$/i.exec(color)
+
+  if (!match) {
+    return null
+  }
+
+  const hex = match[1].length === 3
+    ? match[1].replace(/./g, char => char + char)
+    : match[1]
+
+  return [
+    Number.parseInt(hex.slice(0, 2), 16),
+    Number.parseInt(hex.slice(2, 4), 16),
+    Number.parseInt(hex.slice(4, 6), 16),
+  ]
+}
+
+/**
+ * Formats RGB components as `#rrggbb` hex color
+ */
+export function toHexColor(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map(value => clamp(Math.round(value), 0, 255).toString(16).padStart(2, '0')).join('')}`
 }
 
 /**
@@ -64,67 +124,180 @@ function setHtmlAttribute(html: string, attrName: string, value: string): string
 }
 
 /**
- * Format a number to a fixed number of decimal places with proper comma formatting
- * like in the reference SVG
+ * Format a number to at most 3 decimal places like in the reference SVG
  */
 export function fixed(number: number): string {
-  // Format with 3 decimal places
-  let formatted = number.toFixed(3)
+  return number.toFixed(3).replace('.000', '')
+}
 
-  // Remove trailing zeros
-  if (formatted.endsWith('.000')) {
-    formatted = formatted.slice(0, -4)
-  }
-  else if (formatted.endsWith('00')) {
-    formatted = formatted.slice(0, -2)
-  }
-  else if (formatted.endsWith('0')) {
-    formatted = formatted.slice(0, -1)
-  }
+/**
+ * Cubic bezier segment of a traced path
+ */
+export interface CurveSegment {
+  type: 'curve'
+  controlPoints: [Point, Point]
+  end: Point
+}
 
-  // Replace decimal point with comma + space
-  return formatted.replace('.', ', ')
+/**
+ * Corner of a traced path: two straight lines meeting at the vertex, which is its only control point
+ */
+export interface CornerSegment {
+  type: 'corner'
+  controlPoints: [Point]
+  end: Point
 }
 
 /**
- * Generates path instructions for given curve
+ * Segment of a traced path, starting where previous segment ends.
+ * The first segment starts at the end of the last one.
  */
-export function renderCurve(curve: Curve, scale?: { x: number, y: number }): string {
-  scale = scale || { x: 1, y: 1 }
+export type PathSegment = CurveSegment | CornerSegment
 
-  const startingPoint = curve.c[(curve.n - 1) * 3 + 2]
+/**
+ * Converts curve into list of segments
+ *
+ * Every coordinate is multiplied by scale and then moved by offset, if those are given.
+ */
+export function curveToSegments(
+  curve: Curve,
+  scale?: { x: number, y: number },
+  offset?: { x: number, y: number },
+): PathSegment[] {
+  scale = scale || { x: 1, y: 1 }
+  offset = offset || { x: 0, y: 0 }
 
-  const path = [
-    `M ${fixed(startingPoint.x * scale.x)} ${fixed(startingPoint.y * scale.y)}`,
-  ]
+  const point = (p: Point): Point => new Point(p.x * scale.x + offset.x, p.y * scale.y + offset.y)
+  const segments: PathSegment[] = []
 
   curve.tag.forEach((tag, i) => {
     const i3 = i * 3
-    const p0 = curve.c[i3]
-    const p1 = curve.c[i3 + 1]
-    const p2 = curve.c[i3 + 2]
 
     if (tag === 'CURVE') {
-      path.push(
-        `C ${fixed(p0.x * scale.x)} ${fixed(p0.y * scale.y)}, ${fixed(p1.x * scale.x)} ${fixed(p1.y * scale.y)}, ${fixed(p2.x * scale.x)} ${fixed(p2.y * scale.y)}`,
-      )
+      segments.push({ type: 'curve', controlPoints: [point(curve.c[i3]), point(curve.c[i3 + 1])], end: point(curve.c[i3 + 2]) })
     }
     else if (tag === 'CORNER') {
-      path.push(
-        `L ${fixed(p0.x * scale.x)} ${fixed(p0.y * scale.y)}`,
-      )
-      path.push(
-        `L ${fixed(p1.x * scale.x)} ${fixed(p1.y * scale.y)}`,
-      )
-      path.push(
-        `L ${fixed(p2.x * scale.x)} ${fixed(p2.y * scale.y)}`,
-      )
+      // First control point is not used by corners, second one is the vertex
+      segments.push({ type: 'corner', controlPoints: [point(curve.c[i3 + 1])], end: point(curve.c[i3 + 2]) })
     }
   })
 
+  return segments
+}
+
+/**
+ * Generates path instructions for given segments
+ *
+ * Corners are rendered as two straight lines: to the vertex and on to the end point.
+ * Curves are rendered as cubic bezier curves.
+ * Closed paths start at the end point of the last segment, open ones at given start point.
+ */
+export function renderSegments(segments: PathSegment[], start?: Point): string {
+  if (!segments.length) {
+    return ''
+  }
+
+  const point = (p: Point): string => `${fixed(p.x)} ${fixed(p.y)}`
+  const path = [`M ${point(start || segments[segments.length - 1].end)}`]
+
+  for (const segment of segments) {
+    if (segment.type === 'curve') {
+      path.push(`C ${point(segment.controlPoints[0])}, ${point(segment.controlPoints[1])}, ${point(segment.end)}`)
+    }
+    else {
+      path.push(`L ${point(segment.controlPoints[0])} ${point(segment.end)}`)
+    }
+  }
+
   return path.join(' ')
 }
 
+/**
+ * Generates path instructions for given curve
+ *
+ * Segments tagged as CORNER are rendered as two straight lines: to the vertex and on to the end point.
+ * Segments tagged as CURVE are rendered as cubic bezier curves.
+ * Every coordinate is multiplied by scale and then moved by offset, if those are given.
+ */
+export function renderCurve(
+  curve: Curve,
+  scale?: { x: number, y: number },
+  offset?: { x: number, y: number },
+): string {
+  return renderSegments(curveToSegments(curve, scale, offset))
+}
+
+/**
+ * Calculates exact bounding box of path made of given segments, closed unless start point is given,
+ * including extremes of bezier curves between their end points
+ */
+export function segmentsBounds(segments: PathSegment[], start?: Point): { x: number, y: number, width: number, height: number } {
+  if (!segments.length) {
+    return { x: 0, y: 0, width: 0, height: 0 }
+  }
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+
+  const include = (p: Point): void => {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+
+  let from = start || segments[segments.length - 1].end
+  include(from)
+
+  for (const segment of segments) {
+    include(segment.end)
+
+    if (segment.type === 'corner') {
+      include(segment.controlPoints[0])
+    }
+    else {
+      const [p1, p2] = segment.controlPoints
+
+      // Roots of derivative of the curve are where it changes direction along an axis
+      for (const t of [...bezierExtremes(from.x, p1.x, p2.x, segment.end.x), ...bezierExtremes(from.y, p1.y, p2.y, segment.end.y)]) {
+        include(bezier(t, from, p1, p2, segment.end))
+      }
+    }
+
+    from = segment.end
+  }
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * Finds parameters in range (0, 1) at which one coordinate of cubic bezier curve has a local extreme
+ */
+function bezierExtremes(p0: number, p1: number, p2: number, p3: number): number[] {
+  const a = 3 * (-p0 + 3 * p1 - 3 * p2 + p3)
+  const b = 6 * (p0 - 2 * p1 + p2)
+  const c = 3 * (p1 - p0)
+  const roots: number[] = []
+
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12) {
+      roots.push(-c / b)
+    }
+  }
+  else {
+    const discriminant = b * b - 4 * a * c
+
+    if (discriminant >= 0) {
+      const sqrt = Math.sqrt(discriminant)
+      roots.push((-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a))
+    }
+  }
+
+  return roots.filter(t => t > 0 && t < 1)
+}
+
 /**
  * Calculate bezier curve point
  */
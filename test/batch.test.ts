@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { formatBatchReport, traceBatch } from '../src/index'
+
+const PATH_TO_BLACK_AND_WHITE_IMAGE = path.join(import.meta.dir, 'sources/clouds.jpg')
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-potrace-batch-'))
+const inputDir = path.join(tempDir, 'icons')
+
+describe('Batch tracing', () => {
+  beforeAll(() => {
+    fs.mkdirSync(path.join(inputDir, 'nested'), { recursive: true })
+    fs.copyFileSync(PATH_TO_BLACK_AND_WHITE_IMAGE, path.join(inputDir, 'first.jpg'))
+    fs.copyFileSync(PATH_TO_BLACK_AND_WHITE_IMAGE, path.join(inputDir, 'nested/second.JPG'))
+    fs.writeFileSync(path.join(inputDir, 'nested/broken.png'), 'not an image')
+    fs.writeFileSync(path.join(inputDir, 'readme.txt'), 'not picked up from directories')
+  })
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('traces images from directory into mirrored paths and reports failures', async () => {
+    const outDir = path.join(tempDir, 'out')
+    const progress: number[] = []
+
+    const report = await traceBatch(inputDir, {
+      outDir,
+      concurrency: 2,
+      traceOptions: { threshold: 128, color: 'red' },
+      onProgress: (_, done) => progress.push(done),
+    })
+
+    expect(report.results.map(result => path.relative(inputDir, result.input))).toEqual([
+      'first.jpg',
+      path.join('nested', 'broken.png'),
+      path.join('nested', 'second.JPG'),
+    ])
+    expect(report.succeeded).toBe(2)
+    expect(report.failed).toBe(1)
+    expect(report.duration).toBeGreaterThan(0)
+    expect(progress).toEqual([1, 2, 3])
+
+    const [first, broken, second] = report.results
+
+    expect(first.output).toBe(path.join(outDir, 'first.svg'))
+    expect(second.output).toBe(path.join(outDir, 'nested', 'second.svg'))
+    expect(fs.readFileSync(second.output, 'utf8')).toContain('fill="red"')
+
+    expect(broken.error).toBeInstanceOf(Error)
+    expect(fs.existsSync(broken.output)).toBe(false)
+
+    const summary = formatBatchReport(report)
+    expect(summary).toMatch(/^Processed 3 files in \d+\.\d\ds: 2 succeeded, 1 failed/)
+    expect(summary).toContain(broken.input)
+  })
+
+  test('accepts globs and posterizes next to input files by default', async () => {
+    const report = await traceBatch(['icons/**/*.jpg', 'icons/first.jpg'], {
+      cwd: tempDir,
+      posterize: true,
+      traceOptions: { steps: 2 },
+    })
+
+    // Glob matching is case-sensitive and duplicates are skipped
+    expect(report.results).toHaveLength(1)
+    expect(report.failed).toBe(0)
+    expect(report.results[0].output).toBe(path.join(inputDir, 'first.svg'))
+    expect(fs.readFileSync(report.results[0].output, 'utf8').match(/<path/g)).toHaveLength(2)
+  })
+
+  test('missing files are reported without aborting the batch', async () => {
+    const report = await traceBatch([path.join(tempDir, 'missing.png'), path.join(inputDir, 'first.jpg')], {
+      outDir: path.join(tempDir, 'partial'),
+    })
+
+    expect(report.failed).toBe(1)
+    expect(report.succeeded).toBe(1)
+    expect(report.results[0].error).toBeInstanceOf(Error)
+  })
+
+  test('files written to the same output path are reported as failures', async () => {
+    const conflictsDir = path.join(tempDir, 'conflicts')
+    fs.mkdirSync(path.join(conflictsDir, 'a'), { recursive: true })
+    fs.mkdirSync(path.join(conflictsDir, 'b'), { recursive: true })
+    fs.copyFileSync(PATH_TO_BLACK_AND_WHITE_IMAGE, path.join(conflictsDir, 'a/logo.jpg'))
+    fs.copyFileSync(PATH_TO_BLACK_AND_WHITE_IMAGE, path.join(conflictsDir, 'a/logo.png'))
+    fs.copyFileSync(PATH_TO_BLACK_AND_WHITE_IMAGE, path.join(conflictsDir, 'b/logo.jpg'))
+
+    const outDir = path.join(tempDir, 'merged')
+    const report = await traceBatch(['a/*.jpg', 'a/*.png', 'b/*.jpg'], { cwd: conflictsDir, outDir })
+
+    expect(report.results.map(result => result.output)).toEqual(Array.from({ length: 3 }, () => path.join(outDir, 'logo.svg')))
+    expect(report.succeeded).toBe(1)
+    expect(report.failed).toBe(2)
+    expect(report.results[0].error).toBeNull()
+    expect(report.results[1].error!.message).toContain(path.join(conflictsDir, 'a/logo.jpg'))
+    expect(report.results[2].error!.message).toContain(path.join(conflictsDir, 'a/logo.jpg'))
+  })
+
+  test('throws on bad concurrency or shared options before processing files', async () => {
+    await expect(traceBatch(inputDir, { concurrency: 0 })).rejects.toThrow()
+    await expect(traceBatch(inputDir, { traceOptions: { threshold: 300 } })).rejects.toThrow()
+  })
+})
@@ -0,0 +1,103 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import process from 'node:process'
+
+const PATH_TO_CLI = path.join(import.meta.dir, '../bin/cli.ts')
+const PATH_TO_BLACK_AND_WHITE_IMAGE = path.join(import.meta.dir, 'sources/clouds.jpg')
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-potrace-cli-'))
+
+function run(args: string[], stdin?: Uint8Array): { exitCode: number, stdout: string, stderr: string } {
+  const result = Bun.spawnSync([process.execPath, PATH_TO_CLI, ...args], { stdin: stdin ?? 'ignore' })
+
+  return {
+    exitCode: result.exitCode,
+    stdout: result.stdout.toString(),
+    stderr: result.stderr.toString(),
+  }
+}
+
+describe('CLI', () => {
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('traces image to stdout with potrace flags applied', () => {
+    const { exitCode, stdout } = run([
+      PATH_TO_BLACK_AND_WHITE_IMAGE,
+      '-t',
+      '5',
+      '-k',
+      '0.5',
+      '-i',
+      '-n',
+      '-W',
+      '100',
+      '-C',
+      'red',
+      '--fillcolor',
+      '#ffffff',
+    ])
+
+    expect(exitCode).toBe(0)
+    expect(stdout).toMatch(/^<svg[^>]+width="100"/)
+    expect(stdout).toContain('fill="red"')
+    expect(stdout).toContain('<rect x="0" y="0" width="100%" height="100%" fill="#ffffff" />')
+    // Curve optimization is turned off, so corners are still there
+    expect(stdout).toContain(' L ')
+  })
+
+  test('writes output file and reads image from stdin', () => {
+    const output = path.join(tempDir, 'output.svg')
+    const { exitCode, stdout } = run(['-o', output], fs.readFileSync(PATH_TO_BLACK_AND_WHITE_IMAGE))
+
+    expect(exitCode).toBe(0)
+    expect(stdout).toBe('')
+    expect(fs.readFileSync(output, 'utf8')).toMatch(/^<svg[\s\S]+<path[\s\S]+<\/svg>$/)
+  })
+
+  test('posterize subcommand accepts Posterizer options', () => {
+    const { exitCode, stdout } = run(['posterize', PATH_TO_BLACK_AND_WHITE_IMAGE, '-s', '60,120,180', '--fill-strategy', 'spread'])
+
+    expect(exitCode).toBe(0)
+    expect(stdout.match(/<path/g)).toHaveLength(3)
+
+    const color = run(['posterize', PATH_TO_BLACK_AND_WHITE_IMAGE, '--color-mode', 'color', '--quantization', 'kmeans', '-s', '3'])
+
+    expect(color.exitCode).toBe(0)
+    expect(color.stdout).not.toContain('fill-opacity')
+  })
+
+  test('batch subcommand traces globs into output directory and prints summary', () => {
+    const inputDir = path.join(tempDir, 'batch')
+    const outDir = path.join(tempDir, 'batch-out')
+
+    fs.mkdirSync(inputDir)
+    fs.copyFileSync(PATH_TO_BLACK_AND_WHITE_IMAGE, path.join(inputDir, 'clouds.jpg'))
+    fs.writeFileSync(path.join(inputDir, 'broken.jpg'), 'not an image')
+
+    const { exitCode, stdout } = run(['batch', `${inputDir}/*.jpg`, '-o', outDir, '-j', '2', '-p', '-s', '2'])
+
+    expect(exitCode).toBe(1)
+    expect(stdout).toContain('2 files')
+    expect(stdout).toContain('1 succeeded, 1 failed')
+    expect(stdout).toContain(path.join(inputDir, 'broken.jpg'))
+    expect(fs.readFileSync(path.join(outDir, 'clouds.svg'), 'utf8').match(/<path/g)).toHaveLength(2)
+  })
+
+  test('fails with message and non-zero exit code on bad input', () => {
+    const badFlag = run([PATH_TO_BLACK_AND_WHITE_IMAGE, '-t', 'many'])
+    expect(badFlag.exitCode).toBe(1)
+    expect(badFlag.stderr).toContain('--turdsize')
+
+    const badOption = run([PATH_TO_BLACK_AND_WHITE_IMAGE, '-z', 'sideways'])
+    expect(badOption.exitCode).toBe(1)
+    expect(badOption.stderr).toContain('--turnpolicy')
+
+    const missingFile = run([path.join(tempDir, 'missing.png')])
+    expect(missingFile.exitCode).toBe(1)
+    expect(missingFile.stderr).toMatch(/^ts-potrace: /)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { Potrace } from '../src/core'
+import { readImageWithJimp } from '../src/index'
+
+/**
+ * Collects runtime imports of a module and all local modules it imports, dynamic ones included
+ * as bundlers emit them as separate chunks
+ */
+function collectRuntimeImports(entry: string, seen: Set<string> = new Set()): string[] {
+  const transpiler = new Bun.Transpiler({ loader: 'ts' })
+  const imports: string[] = []
+
+  if (seen.has(entry)) {
+    return imports
+  }
+
+  seen.add(entry)
+
+  for (const { path: specifier } of transpiler.scanImports(fs.readFileSync(entry, 'utf8'))) {
+    if (!specifier.startsWith('.')) {
+      imports.push(specifier)
+      continue
+    }
+
+    const resolved = path.resolve(path.dirname(entry), specifier)
+    const file = [`${resolved}.ts`, path.join(resolved, 'index.ts')].find(candidate => fs.existsSync(candidate))
+
+    imports.push(...collectRuntimeImports(file!, seen))
+  }
+
+  return imports
+}
+
+describe('Core entry point', () => {
+  test('does not import Jimp or Node modules at runtime', () => {
+    const imports = collectRuntimeImports(path.resolve(import.meta.dir, '../src/core.ts'))
+
+    expect(imports).toEqual([])
+  })
+
+  test('main entry point imports Jimp', () => {
+    const imports = collectRuntimeImports(path.resolve(import.meta.dir, '../src/index.ts'))
+
+    expect(imports).toContain('jimp')
+  })
+
+  test('loadImage uses registered image reader', async () => {
+    const instance = new Potrace({ threshold: 128 })
+    const data = new Uint8Array(8 * 8 * 4).fill(255)
+    let readSource: unknown = null
+
+    Potrace.setImageReader(async (source) => {
+      readSource = source
+      return { data, width: 8, height: 8 }
+    })
+
+    try {
+      await instance.loadImage('image.png')
+      expect(readSource).toBe('image.png')
+      expect(instance.getSVG()).toContain('width="8" height="8"')
+
+      Potrace.setImageReader(null)
+      await expect(instance.loadImage('image.png')).rejects.toThrow('No image reader available')
+
+      // Jimp instances and raw pixels do not need a reader
+      await instance.loadImage({ bitmap: { data, width: 8, height: 8 } })
+      expect(instance.loadPixels({ data, width: 8, height: 8 })).toBe(instance)
+    }
+    finally {
+      Potrace.setImageReader(readImageWithJimp)
+    }
+  })
+})
@@ -1,6 +1,7 @@
 import { beforeAll, describe, expect, test } from 'bun:test'
 import * as path from 'node:path'
 import { Jimp } from 'jimp'
+import { Bitmap } from '../src/types/Bitmap'
 import { Histogram } from '../src/types/Histogram'
 
 const PATH_TO_LENNA = path.join(import.meta.dir, 'sources/Lenna.png')
@@ -20,8 +21,9 @@ describe('Histogram class', () => {
     whiteHistogram = new Histogram(whiteImage, Histogram.MODE_LUMINANCE)
 
     // Load test image
+    // Expected values below were collected with BT.709 luma coefficients
     const img = await Jimp.read(PATH_TO_LENNA)
-    histogram = new Histogram(img, Histogram.MODE_LUMINANCE)
+    histogram = new Histogram(img, 'bt709')
     return Promise.resolve()
   })
 
@@ -179,4 +181,136 @@ describe('Histogram class', () => {
     expect(threshold).toBeGreaterThan(0)
     expect(threshold).toBeLessThan(256)
   })
+
+  describe('autoThreshold methods', () => {
+    /**
+     * Histogram of line art: 5% of ink with levels 20..40 on paper with levels 220..250
+     */
+    function lineArtHistogram(): Histogram {
+      const bitmap = new Bitmap(1000, 1)
+      bitmap.data.set(Array.from({ length: 1000 }, (_, i) => i < 50 ? 20 + i % 21 : 220 + i % 31))
+      return new Histogram(bitmap)
+    }
+
+    test('all methods separate ink from paper', () => {
+      const lineArt = lineArtHistogram()
+      const methods = [
+        Histogram.THRESHOLD_OTSU,
+        Histogram.THRESHOLD_KAPUR,
+        Histogram.THRESHOLD_TRIANGLE,
+        Histogram.THRESHOLD_ISODATA,
+        Histogram.THRESHOLD_MINIMUM,
+        Histogram.THRESHOLD_PERCENTILE,
+      ]
+
+      for (const method of methods) {
+        const threshold = lineArt.autoThreshold(undefined, undefined, method, 5)
+        expect(threshold).toBeGreaterThanOrEqual(40)
+        expect(threshold).toBeLessThan(220)
+      }
+
+      // Halfway between means of ink and paper
+      expect(lineArt.autoThreshold(undefined, undefined, 'isodata')).toBe(131)
+    })
+
+    test('default method is the between-class variance one', () => {
+      expect(histogram.autoThreshold()).toBe(histogram.multilevelThresholding(1)[0])
+      expect(histogram.autoThreshold(60, 180, Histogram.THRESHOLD_OTSU)).toBe(histogram.multilevelThresholding(1, 60, 180)[0])
+    })
+
+    test('percentile puts given share of pixels into dark class', () => {
+      const lineArt = lineArtHistogram()
+
+      expect(lineArt.autoThreshold(undefined, undefined, 'percentile', 5)).toBe(40)
+      expect(lineArt.autoThreshold(undefined, undefined, 'percentile', 100)).toBe(250)
+      expect(histogram.getStats(0, histogram.autoThreshold(undefined, undefined, 'percentile', 30)).pixels)
+        .toBeGreaterThanOrEqual(histogram.pixels * 0.3)
+    })
+
+    test('returns -1 when image has a single level', () => {
+      for (const method of ['kapur', 'triangle', 'isodata', 'minimum'] as const) {
+        expect(blackHistogram.autoThreshold(undefined, undefined, method)).toBe(-1)
+      }
+    })
+
+    test('throws on unknown method', () => {
+      expect(() => histogram.autoThreshold(undefined, undefined, 'huang' as any)).toThrow()
+    })
+  })
+
+  describe('construction from counts and serialization', () => {
+    test('fromCounts creates histogram equal to collected one', () => {
+      const restored = Histogram.fromCounts(Array.from(histogram.data!))
+
+      expect(restored.pixels).toBe(histogram.pixels)
+      expect(restored.getStats()).toEqual(histogram.getStats())
+      expect(restored.autoThreshold()).toBe(histogram.autoThreshold())
+    })
+
+    test('merge adds up counts without modifying either histogram', () => {
+      const merged = blackHistogram.merge(whiteHistogram).merge(histogram)
+
+      expect(merged.pixels).toBe(20000 + histogram.pixels)
+      expect(merged.data![0]).toBe(10000 + histogram.data![0])
+      expect(merged.data![128]).toBe(histogram.data![128])
+      expect(blackHistogram.data![255]).toBe(0)
+      expect(blackHistogram.pixels).toBe(10000)
+
+      // Thresholds of aggregated histogram can be applied to every part of it
+      expect(blackHistogram.merge(whiteHistogram).autoThreshold()).toBeGreaterThanOrEqual(0)
+      expect(blackHistogram.merge(whiteHistogram).autoThreshold()).toBeLessThan(255)
+    })
+
+    test('fromCounts picks array type wide enough for the total', () => {
+      const counts = Array.from({ length: 256 }, () => 0)
+      counts[10] = 200
+      counts[20] = 200
+
+      expect(Histogram.fromCounts(counts).data).toBeInstanceOf(Uint16Array)
+      expect(Histogram.fromCounts(counts).data![20]).toBe(200)
+    })
+
+    test('fromCounts and merge keep counts too large for an image of the same size', () => {
+      const counts = Array.from({ length: 256 }, () => 0)
+      counts[0] = 256
+
+      expect(Histogram.fromCounts(counts).data![0]).toBe(256)
+      expect(Histogram.fromCounts(counts).pixels).toBe(256)
+
+      counts[0] = 2 ** 32 + 5
+      const large = Histogram.fromCounts(counts)
+
+      expect(large.data).toBeInstanceOf(Float64Array)
+      expect(large.data![0]).toBe(2 ** 32 + 5)
+      expect(large.merge(large).data![0]).toBe(2 ** 33 + 10)
+      expect(large.merge(large).pixels).toBe(2 ** 33 + 10)
+
+      counts[0] = Number.MAX_SAFE_INTEGER + 1
+      expect(() => Histogram.fromCounts(counts)).toThrow()
+
+      counts[0] = Number.MAX_SAFE_INTEGER
+      counts[1] = 1
+      expect(() => Histogram.fromCounts(counts)).toThrow()
+    })
+
+    test('toJSON and fromJSON round trip', () => {
+      const json = JSON.stringify(histogram)
+      const restored = Histogram.fromJSON(json)
+
+      expect(JSON.parse(json).pixels).toBe(histogram.pixels)
+      expect(Array.from(restored.data!)).toEqual(Array.from(histogram.data!))
+      expect(Histogram.fromJSON(histogram.toJSON()).getStats()).toEqual(histogram.getStats())
+    })
+
+    test('throws on malformed counts', () => {
+      const counts = Array.from({ length: 256 }, () => 1)
+
+      expect(() => Histogram.fromCounts(counts.slice(1))).toThrow()
+      expect(() => Histogram.fromCounts([...counts.slice(1), -1])).toThrow()
+      expect(() => Histogram.fromCounts([...counts.slice(1), 0.5])).toThrow()
+      expect(() => Histogram.fromJSON({ pixels: 1, counts })).toThrow()
+      expect(() => Histogram.fromJSON('{}')).toThrow()
+      expect(() => histogram.merge({} as any)).toThrow()
+    })
+  })
 })
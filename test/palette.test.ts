@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test'
+import { Palette } from '../src/types/Palette'
+
+// 4x3 RGBA image: six red, four blue and two transparent green pixels
+const RED = [255, 0, 0, 255]
+const BLUE = [0, 0, 255, 255]
+const CLEAR = [0, 255, 0, 0]
+const ROWS = [
+  [RED, RED, RED, BLUE],
+  [RED, RED, RED, BLUE],
+  [CLEAR, CLEAR, BLUE, BLUE],
+]
+const PIXELS = { data: new Uint8Array(ROWS.flat(2)), width: 4, height: 3 }
+
+describe('Palette class', () => {
+  test('quantizes colors sorted by number of pixels, leaving out transparent ones', () => {
+    for (const method of [Palette.METHOD_MEDIAN_CUT, Palette.METHOD_KMEANS]) {
+      const palette = Palette.quantize(PIXELS, 4, method)
+
+      expect(palette.colors).toEqual([[255, 0, 0], [0, 0, 255]])
+      expect(palette.counts).toEqual([6, 4])
+      expect(Array.from(palette.indices)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, -1, -1, 1, 1])
+    }
+  })
+
+  test('merges closest colors when palette is smaller than number of colors', () => {
+    const data = new Uint8Array([
+      [10, 10, 10],
+      [20, 20, 20],
+      [240, 240, 240],
+      [250, 250, 250],
+      [250, 250, 250],
+    ].flat())
+
+    const palette = Palette.quantize({ data, width: 5, height: 1, channels: 3 }, 2)
+
+    expect(palette.size).toBe(2)
+    expect(palette.colors).toEqual([[247, 247, 247], [15, 15, 15]])
+    expect(Array.from(palette.indices)).toEqual([1, 1, 0, 0, 0])
+  })
+
+  test('mask marks pixels of given palette colors', () => {
+    const palette = Palette.quantize(PIXELS, 2)
+
+    expect(Array.from(palette.mask(1).data)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 1, 1])
+    expect(Array.from(palette.mask([0, 1]).data)).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 1, 1])
+  })
+
+  test('throws on bad size or method', () => {
+    expect(() => Palette.quantize(PIXELS, 0)).toThrow()
+    expect(() => Palette.quantize(PIXELS, 2, 'octree' as any)).toThrow()
+  })
+})
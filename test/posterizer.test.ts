@@ -1,12 +1,13 @@
 import { beforeAll, describe, expect, test } from 'bun:test'
 import * as path from 'node:path'
 import { Jimp } from 'jimp'
-import { posterize } from '../src/index'
+import { posterize, posterizeAsync } from '../src/index'
 import { Posterizer } from '../src/Posterizer'
 import { Potrace } from '../src/Potrace'
 
 const PATH_TO_YAO = path.join(import.meta.dir, 'sources/yao.jpg')
 const PATH_TO_CLOUDS = path.join(import.meta.dir, 'sources/clouds.jpg')
+const PATH_TO_LENNA = path.join(import.meta.dir, 'sources/Lenna.png')
 
 describe('Posterizer class', () => {
   let jimpInstance: typeof Jimp.prototype
@@ -226,6 +227,57 @@ describe('Posterizer class', () => {
     expect(actual).toContain('</svg>')
   })
 
+  test('resolves automatic background from pixels not covered by layers', async () => {
+    const instance = new Posterizer({
+      threshold: 40,
+      blackOnWhite: false,
+      steps: 3,
+      background: Potrace.COLOR_AUTO,
+    })
+
+    await instance.loadImage(PATH_TO_CLOUDS)
+
+    // Light areas are traced, so background is the dark sky
+    expect(instance.getSVG()).toContain('<rect x="0" y="0" width="100%" height="100%" fill="#000000" />')
+  })
+
+  test('width and height options scale the output', async () => {
+    const instance = new Posterizer({
+      threshold: 40,
+      blackOnWhite: false,
+      steps: 3,
+      width: 50,
+      height: 50,
+      scaleMode: Potrace.SCALE_STRETCH,
+    })
+
+    await instance.loadImage(PATH_TO_CLOUDS)
+
+    const svg = instance.getSVG()
+    expect(svg).toContain('width="50" height="50" viewBox="0 0 50 50"')
+
+    const coordinates = (svg.match(/ d="([^"]*)"/)?.[1] || '')
+      .split(/[\s,A-Z]+/i)
+      .filter(Boolean)
+      .map(Number)
+
+    expect(coordinates.length).toBeGreaterThan(0)
+    expect(Math.max(...coordinates)).toBeLessThan(50.001)
+    expect(instance.getSymbol('scaled')).toContain('viewBox="0 0 50 50"')
+  })
+
+  test('loadPixels accepts grayscale pixel data', () => {
+    const size = 20
+    const data = new Uint8Array(size * size).map((_, i) => Math.round((i % size) / (size - 1) * 255))
+    const instance = new Posterizer({ steps: 3, threshold: 200 })
+
+    expect(instance.loadPixels({ data, width: size, height: size, channels: 1 })).toBe(instance)
+
+    const svg = instance.getSVG()
+    expect(svg).toContain('width="20" height="20"')
+    expect(svg).toContain('<path')
+  })
+
   test('getSymbol should not have fill color or background', async () => {
     const instanceYao = new Posterizer()
 
@@ -248,6 +300,123 @@ describe('Posterizer class', () => {
     expect(symbol).not.toMatch(/<rect/i)
     expect(symbol).toMatch(/<path[^>]+>/i)
   })
+
+  test('color mode traces opaque layers filled with palette colors', async () => {
+    const instance = new Posterizer({ colorMode: 'color', steps: 4, background: Potrace.COLOR_TRANSPARENT })
+
+    await instance.loadImage(PATH_TO_LENNA)
+
+    const svg = instance.getSVG()
+    const fills = Array.from(svg.matchAll(/fill="(#[\da-f]{6})"/g), match => match[1])
+
+    // Bottom layer covers the whole image, the rest are traced
+    const { width, height } = instance.getImageStats()
+    expect(svg).toMatch(new RegExp(`<rect x="0" y="0" width="${width}" height="${height}" fill="#[\\da-f]{6}" />`))
+    expect(svg.match(/<path/g)).toHaveLength(3)
+    expect(new Set(fills).size).toBe(4)
+    expect(svg).not.toContain('fill-opacity')
+
+    instance.setParameters({ quantization: Posterizer.QUANTIZE_KMEANS })
+    expect(instance.getSVG()).not.toBe(svg)
+
+    // Area left around fitted image stays empty
+    instance.setParameters({ width: width * 2, height: height * 4 })
+    expect(instance.getSVG()).toMatch(new RegExp(`<rect x="0" y="${height}" width="${width * 2}" height="${height * 2}" fill=`))
+  })
+
+  test('color mode keeps transparent areas empty when alpha channel is used as ink', () => {
+    const size = 20
+    const data = new Uint8Array(size * size * 4)
+
+    // Red square with blue inner square, everything else transparent
+    for (let y = 4; y < 16; y++) {
+      for (let x = 4; x < 16; x++) {
+        const inner = x >= 8 && x < 12 && y >= 8 && y < 12
+        data.set(inner ? [0, 0, 255, 255] : [255, 0, 0, 255], (y * size + x) * 4)
+      }
+    }
+
+    const instance = new Posterizer({ colorMode: 'color', steps: 3, alphaMode: 'alpha' })
+    const svg = instance.loadPixels({ data, width: size, height: size }).getSVG()
+
+    expect(svg).not.toContain('<rect')
+    expect(svg).toContain('fill="#ff0000"')
+    expect(svg).toContain('fill="#0000ff"')
+    expect(svg.match(/<path/g)).toHaveLength(2)
+  })
+
+  test('exclusive layers trace only their own band', () => {
+    const width = 40
+    const height = 12
+    // Three gray bands on white, from lightest to darkest
+    const data = new Uint8Array(width * height).map((_, i) => {
+      const x = i % width
+      const y = Math.floor(i / width)
+
+      if (y < 2 || y >= 10 || x < 4 || x >= 34)
+        return 255
+
+      return x < 14 ? 180 : x < 24 ? 100 : 20
+    })
+
+    const layerXRanges = (layerMode: 'stacked' | 'exclusive'): number[][] => {
+      const instance = new Posterizer({ threshold: 200, steps: [200, 150, 50], layerMode })
+      const svg = instance.loadPixels({ data, width, height, channels: 1 }).getSVG()
+
+      return Array.from(svg.matchAll(/ d="([^"]+)"/g), (match) => {
+        const xs = (match[1].match(/[\d.]+/g) || []).map(Number).filter((_, i) => i % 2 === 0)
+        return [Math.min(...xs), Math.max(...xs)]
+      })
+    }
+
+    const stacked = layerXRanges('stacked')
+
+    // Stacked layers also cover darker bands
+    expect(stacked.map(([min]) => min)).toEqual([4, 14, 24])
+    expect(stacked[0][1]).toBeGreaterThan(14)
+    expect(stacked[1][1]).toBeGreaterThan(24)
+    expect(layerXRanges('exclusive')).toEqual([[4, 14], [14, 24], [24, 34]])
+  })
+
+  test('getSVG leaves parameters of underlying Potrace instance unchanged', () => {
+    const width = 20
+    const height = 20
+    const data = new Uint8Array(width * height).map((_, i) => (i % width) * 12)
+
+    for (const layerMode of [Posterizer.LAYERS_STACKED, Posterizer.LAYERS_EXCLUSIVE]) {
+      const instance = new Posterizer({
+        steps: 3,
+        color: '#123456',
+        thresholdMode: Potrace.THRESHOLD_SAUVOLA,
+        mode: Potrace.MODE_CENTERLINE,
+        layerMode,
+      })
+      const potrace: Potrace = (instance as any)._potrace
+      const params = potrace.getParameters()
+
+      const svg = instance.loadPixels({ data, width, height, channels: 1 }).getSVG()
+      instance.getSymbol('layers')
+
+      expect(potrace.getParameters()).toEqual(params)
+      expect(instance.getSVG()).toBe(svg)
+    }
+  })
+
+  test('exclusive layers in color mode cover only pixels of their own color', async () => {
+    const instance = new Posterizer({ colorMode: 'color', steps: 4, layerMode: Posterizer.LAYERS_EXCLUSIVE })
+
+    await instance.loadImage(PATH_TO_LENNA)
+
+    const svg = instance.getSVG()
+    expect(svg).not.toContain('<rect')
+    expect(svg.match(/<path/g)).toHaveLength(4)
+  })
+
+  test('throws on bad colorMode, quantization or layerMode', () => {
+    expect(() => new Posterizer({ colorMode: 'sepia' as any })).toThrow()
+    expect(() => new Posterizer({ quantization: 'octree' as any })).toThrow()
+    expect(() => new Posterizer({ layerMode: 'sideways' as any })).toThrow()
+  })
 })
 
 describe('Shorthand methods', () => {
@@ -292,4 +461,17 @@ describe('Shorthand methods', () => {
       })
     })
   })
+
+  test('posterizeAsync resolves to SVG string and instance', async () => {
+    const { svg, instance } = await posterizeAsync(PATH_TO_CLOUDS, { threshold: 40, steps: 3 })
+
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"')
+    expect(svg).toContain('<path')
+    expect(svg).toContain('</svg>')
+    expect(instance).toBeInstanceOf(Posterizer)
+  })
+
+  test('posterizeAsync rejects if path to image is invalid', async () => {
+    await expect(posterizeAsync('invalid/path')).rejects.toBeDefined()
+  })
 })
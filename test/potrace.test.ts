@@ -1,11 +1,49 @@
+import type { PotraceOptions } from '../src/Potrace'
 import { beforeAll, describe, expect, test } from 'bun:test'
 import * as path from 'node:path'
 import { Jimp } from 'jimp'
-import { trace } from '../src/index'
+import { trace, traceAsync, traceMask } from '../src/index'
 import { Potrace } from '../src/Potrace'
+import { Bitmap } from '../src/types/Bitmap'
+import { Curve } from '../src/types/Curve'
+import { Histogram } from '../src/types/Histogram'
+import { Point } from '../src/types/Point'
+import { curveToSegments, renderCurve, renderSegments, segmentsBounds } from '../src/utils'
 
 const PATH_TO_YAO = path.join(import.meta.dir, 'sources/yao.jpg')
 const PATH_TO_BLACK_AND_WHITE_IMAGE = path.join(import.meta.dir, 'sources/clouds.jpg')
+const PATH_TO_LENNA = path.join(import.meta.dir, 'sources/Lenna.png')
+
+/**
+ * Creates white image with a black square in the middle
+ */
+function createSquareImage(size = 20, squareSize = 10): typeof Jimp.prototype {
+  const image = new Jimp({ width: size, height: size, color: 0xFFFFFFFF })
+  const offset = Math.floor((size - squareSize) / 2)
+
+  for (let y = offset; y < offset + squareSize; y++) {
+    for (let x = offset; x < offset + squareSize; x++) {
+      image.setPixelColor(0x000000FF, x, y)
+    }
+  }
+
+  return image
+}
+
+/**
+ * Extracts coordinate pairs from path data of the first path in SVG
+ */
+function getPathPoints(svg: string): { x: number, y: number }[] {
+  const d = svg.match(/ d="([^"]*)"/)?.[1] || ''
+  const numbers = d.split(/[\s,A-Z]+/i).filter(Boolean).map(Number)
+  const points: { x: number, y: number }[] = []
+
+  for (let i = 0; i < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] })
+  }
+
+  return points
+}
 
 describe('Potrace class', () => {
   let jimpInstance: typeof Jimp.prototype
@@ -110,6 +148,22 @@ describe('Potrace class', () => {
     })
   })
 
+  test('loadImage returns a Promise when no callback is given', async () => {
+    const instance = new Potrace()
+
+    await instance.loadImage(PATH_TO_YAO)
+
+    const svg = instance.getSVG()
+    expect(svg).toContain('<svg')
+    expect(svg).toContain('</svg>')
+  })
+
+  test('loadImage Promise rejects if path to image is invalid', async () => {
+    const instance = new Potrace()
+
+    await expect(instance.loadImage('invalid/path')).rejects.toBeDefined()
+  })
+
   test('setParameters correctly sets options for processing', async () => {
     // Create instance with initial parameters
     const instance = new Potrace({ threshold: 128 })
@@ -249,9 +303,861 @@ describe('Potrace class', () => {
     expect(actual).toContain('<path d="')
     expect(actual).toContain('fill="cyan"')
     expect(actual).toContain('fill-rule="evenodd"')
+    expect(actual).toContain('<rect x="0" y="0" width="100%" height="100%" fill="darkred" />')
     expect(actual).toContain('</svg>')
   })
 
+  test('getSVG renders background only when it is not transparent', async () => {
+    const instance = new Potrace({ threshold: 128 })
+    await instance.loadImage(createSquareImage())
+
+    expect(instance.getSVG()).not.toContain('<rect')
+
+    instance.setParameters({ background: Potrace.COLOR_AUTO })
+    expect(instance.getSVG()).toContain('<rect x="0" y="0" width="100%" height="100%" fill="#ffffff" />')
+
+    instance.setParameters({ background: '#123456' })
+    const svg = instance.getSVG()
+    expect(svg).toContain('<rect x="0" y="0" width="100%" height="100%" fill="#123456" />')
+
+    // Background goes before the traced paths
+    expect(svg.indexOf('<rect')).toBeLessThan(svg.indexOf('<path'))
+  })
+
+  test('automatic colors are sampled from source pixels under traced paths and background', async () => {
+    // Navy square on cream paper
+    const image = new Jimp({ width: 20, height: 20, color: 0xF5ECD7FF })
+
+    for (let y = 5; y < 15; y++) {
+      for (let x = 5; x < 15; x++) {
+        image.setPixelColor(0x1B2A4AFF, x, y)
+      }
+    }
+
+    const instance = new Potrace({ threshold: 128, color: Potrace.COLOR_AUTO, background: Potrace.COLOR_AUTO })
+    await instance.loadImage(image)
+
+    const svg = instance.getSVG()
+    expect(svg).toContain('<rect x="0" y="0" width="100%" height="100%" fill="#f5ecd7" />')
+    expect(instance.getPathTag()).toContain('fill="#1b2a4a"')
+
+    // Tracing light areas swaps the colors
+    instance.setParameters({ blackOnWhite: false })
+    expect(instance.getSVG()).toContain('fill="#1b2a4a" />')
+    expect(instance.getPathTag()).toContain('fill="#f5ecd7"')
+
+    // Sampled colors are not kept for another image
+    await instance.loadImage(createSquareImage())
+    expect(instance.getPathTag()).toContain('fill="#ffffff"')
+    expect(instance.getSVG()).toContain('fill="#000000" />')
+
+    // Binary masks have no color data to sample
+    const mask = Potrace.fromBitmap((instance as any)._getBlackMap(), { background: Potrace.COLOR_AUTO })
+    expect(mask.getSVG()).toContain('fill="white" />')
+    expect(mask.getPathTag()).toContain('fill="black"')
+  })
+
+  test('width and height scale traced geometry', async () => {
+    const instance = new Potrace({ threshold: 128 })
+    await instance.loadImage(createSquareImage())
+
+    const original = getPathPoints(instance.getSVG())
+    expect(original.length).toBeGreaterThan(0)
+
+    // Only width given, height follows aspect ratio
+    instance.setParameters({ width: 40 })
+    let svg = instance.getSVG()
+    expect(svg).toContain('width="40" height="40" viewBox="0 0 40 40"')
+    expect(getPathPoints(svg)).toEqual(original.map(p => ({ x: p.x * 2, y: p.y * 2 })))
+
+    // Only height given
+    instance.setParameters({ width: null, height: 10 })
+    svg = instance.getSVG()
+    expect(svg).toContain('width="10" height="10" viewBox="0 0 10 10"')
+    expect(getPathPoints(svg)).toEqual(original.map(p => ({ x: p.x / 2, y: p.y / 2 })))
+  })
+
+  test('scaleMode controls how image is placed when both dimensions are given', async () => {
+    const instance = new Potrace({ threshold: 128 })
+    await instance.loadImage(createSquareImage())
+
+    const original = getPathPoints(instance.getSVG())
+
+    // Fit: uniform scale by the smaller ratio, centered vertically
+    instance.setParameters({ width: 10, height: 20 })
+    let svg = instance.getSVG()
+    expect(svg).toContain('width="10" height="20" viewBox="0 0 10 20"')
+    expect(getPathPoints(svg)).toEqual(original.map(p => ({ x: p.x / 2, y: p.y / 2 + 5 })))
+
+    // Fill: uniform scale by the larger ratio, centered horizontally
+    instance.setParameters({ scaleMode: Potrace.SCALE_FILL })
+    svg = instance.getSVG()
+    expect(svg).toContain('width="10" height="20" viewBox="0 0 10 20"')
+    expect(getPathPoints(svg)).toEqual(original.map(p => ({ x: p.x - 5, y: p.y })))
+
+    // Stretch: independent scale for each axis
+    instance.setParameters({ scaleMode: Potrace.SCALE_STRETCH })
+    svg = instance.getSVG()
+    expect(getPathPoints(svg)).toEqual(original.map(p => ({ x: p.x / 2, y: p.y })))
+
+    // Symbol uses the same output dimensions
+    expect(instance.getSymbol('scaled')).toContain('viewBox="0 0 10 20"')
+  })
+
+  test('setParameters throws on bad width, height or scaleMode values', () => {
+    expect(() => new Potrace({ width: -1 })).toThrow()
+    expect(() => new Potrace({ height: 0 })).toThrow()
+    expect(() => new Potrace({ scaleMode: 'crop' as any })).toThrow()
+  })
+
+  test('setParameters does not store rejected values', () => {
+    const instance = new Potrace({ threshold: 100 })
+    const params = (instance as any)._params
+
+    expect(() => instance.setParameters({ alphaMode: 'red' as any, threshold: 50 })).toThrow()
+    expect(() => instance.setParameters({ preprocess: ['sharpen' as any] })).toThrow()
+    expect(() => instance.setParameters({ thresholdMode: 'local' as any })).toThrow()
+    expect(() => instance.setParameters({ morphology: [{ operation: 'erode', radius: -1 }] })).toThrow()
+    expect(() => instance.setParameters({ connectivity: 6 as any })).toThrow()
+    expect(params.alphaMode).toBe(Potrace.ALPHA_WHITE)
+    expect(params.threshold).toBe(100)
+    expect(params.preprocess).toEqual([])
+
+    // Later valid calls are not affected by the rejected ones
+    expect(() => instance.setParameters({ threshold: 120 })).not.toThrow()
+    expect(params.threshold).toBe(120)
+  })
+
+  test('getPathTag renders corners as straight lines', async () => {
+    const instance = new Potrace({ threshold: 128, alphaMax: 0 })
+    await instance.loadImage(createSquareImage())
+
+    const d = instance.getPathTag().match(/ d="([^"]*)"/)?.[1] || ''
+    expect(d.startsWith('M ')).toBe(true)
+    expect(d).toContain('L ')
+    expect(d).not.toContain('C ')
+
+    instance.setParameters({ alphaMax: 1.3334 })
+    expect(instance.getPathTag()).not.toContain('L ')
+  })
+
+  test('renderCurve uses vertex and end point for corners and all control points for curves', () => {
+    const curve = new Curve(2)
+    curve.tag = ['CORNER', 'CURVE']
+    curve.c = [
+      new Point(-100, -100), // unused by corner
+      new Point(10, 0),
+      new Point(10, 5.5),
+      new Point(10, 10),
+      new Point(0, 10),
+      new Point(0, 0.1234),
+    ]
+
+    expect(renderCurve(curve)).toBe('M 0 0.123 L 10 0 10 5.500 C 10 10, 0 10, 0 0.123')
+    expect(renderCurve(curve, { x: 2, y: 2 }, { x: 1, y: 0 })).toBe('M 1 0.247 L 21 0 21 11 C 21 20, 1 20, 1 0.247')
+  })
+
+  test('segmentsBounds includes extremes of curves between end points', () => {
+    const curve = new Curve(2)
+    curve.tag = ['CURVE', 'CORNER']
+    curve.c = [
+      new Point(0, 10),
+      new Point(10, 10),
+      new Point(10, 0),
+      new Point(-100, -100), // unused by corner
+      new Point(5, -5),
+      new Point(0, 0),
+    ]
+
+    const segments = curveToSegments(curve)
+
+    expect(segments.map(segment => segment.type)).toEqual(['curve', 'corner'])
+    expect(segments[1].controlPoints).toEqual([new Point(5, -5)])
+    expect(segmentsBounds(segments)).toEqual({ x: 0, y: -5, width: 10, height: 12.5 })
+    expect(segmentsBounds([])).toEqual({ x: 0, y: 0, width: 0, height: 0 })
+  })
+
+  test('getResult returns geometry that string renderers are built on', async () => {
+    const instance = new Potrace({ threshold: 128, width: 40 })
+    await instance.loadImage(createSquareImage())
+
+    const result = instance.getResult()
+
+    expect(result.width).toBe(40)
+    expect(result.height).toBe(40)
+    expect(result.paths).toHaveLength(1)
+
+    const [square] = result.paths
+    expect(square.sign).toBe('+')
+    expect(square.area).toBe(10 * 10 * 4)
+    expect(square.segments.length).toBeGreaterThan(0)
+    expect(square.bbox.x).toBeGreaterThanOrEqual(10)
+    expect(square.bbox.y).toBeGreaterThanOrEqual(10)
+    expect(square.bbox.x + square.bbox.width).toBeLessThanOrEqual(30.001)
+    expect(square.bbox.y + square.bbox.height).toBeLessThanOrEqual(30.001)
+
+    expect(instance.getPathTag()).toContain(` d="${renderSegments(square.segments)}"`)
+
+    // Holes are kept apart from outlines
+    const ring = new Bitmap(20, 20)
+    for (let y = 2; y < 18; y++) {
+      ring.data.fill(y < 6 || y >= 14 ? 1 : 0, y * 20 + 2, y * 20 + 18)
+      ring.data.fill(1, y * 20 + 2, y * 20 + 6)
+      ring.data.fill(1, y * 20 + 14, y * 20 + 18)
+    }
+
+    expect(Potrace.fromBitmap(ring).getResult().paths.map(path => [path.sign, path.area])).toEqual([['+', 256], ['-', 64]])
+    expect(() => new Potrace().getResult()).toThrow()
+  })
+
+  test('shapes touching the right edge are not joined with the start of the next row', () => {
+    const bitmap = new Bitmap(4, 2)
+    bitmap.data.set([0, 0, 1, 1, 1, 0, 0, 0])
+
+    expect(bitmap.pointToIndex(4, 0)).toBe(-1)
+    expect(bitmap.pointToIndex(0, 2)).toBe(-1)
+    expect(bitmap.pointToIndex(3, 1)).toBe(7)
+
+    // Pixel past the right edge used to be read from the next row, merging both shapes into one
+    const paths = Potrace.fromBitmap(bitmap, { turdSize: 0 }).getResult().paths
+    expect(paths.map(path => [path.sign, path.area])).toEqual([['+', 2], ['+', 1]])
+  })
+
+  test('setParameters reruns only processing stages affected by changed parameters', async () => {
+    const image = await Jimp.read(PATH_TO_BLACK_AND_WHITE_IMAGE)
+    const instance = new Potrace({ threshold: 128 })
+    await instance.loadImage(image)
+
+    const calls: Record<string, number> = {}
+    for (const method of ['_bmToPathlist', '_bestPolygon', '_smooth', '_optiCurve']) {
+      const original = (instance as any)[method]
+      calls[method] = 0;
+      (instance as any)[method] = function (this: Potrace, ...args: any[]) {
+        calls[method]++
+        return original.apply(this, args)
+      }
+    }
+
+    const expectCalls = (decomposition: boolean, polygon: boolean, smoothing: boolean, optimization: boolean): void => {
+      expect([calls._bmToPathlist > 0, calls._bestPolygon > 0, calls._smooth > 0, calls._optiCurve > 0])
+        .toEqual([decomposition, polygon, smoothing, optimization])
+      Object.keys(calls).forEach(method => calls[method] = 0)
+    }
+
+    const fresh = async (params: PotraceOptions): Promise<string> => {
+      const reference = new Potrace(params)
+      await reference.loadImage(image)
+      return reference.getSVG()
+    }
+
+    instance.getSVG()
+    expectCalls(true, true, true, true)
+
+    // Rendering and unchanged values do not reprocess
+    instance.setParameters({ color: 'red', width: 100, threshold: 128, optTolerance: 0.2 })
+    instance.getSVG()
+    expectCalls(false, false, false, false)
+
+    instance.setParameters({ optTolerance: 0.8 })
+    expect(instance.getSVG()).toBe(await fresh({ threshold: 128, color: 'red', width: 100, optTolerance: 0.8 }))
+    expectCalls(false, false, false, true)
+
+    instance.setParameters({ alphaMax: 0.5 })
+    expect(instance.getSVG()).toBe(await fresh({ threshold: 128, color: 'red', width: 100, optTolerance: 0.8, alphaMax: 0.5 }))
+    expectCalls(false, false, true, true)
+
+    instance.setParameters({ optCurve: false })
+    expect(instance.getSVG()).toBe(await fresh({ threshold: 128, color: 'red', width: 100, optCurve: false, alphaMax: 0.5 }))
+    expectCalls(false, false, false, false)
+
+    instance.setParameters({ optCurve: true, turdSize: 10 })
+    expect(instance.getSVG()).toBe(await fresh({ threshold: 128, color: 'red', width: 100, optTolerance: 0.8, alphaMax: 0.5, turdSize: 10 }))
+    expectCalls(true, true, true, true)
+  })
+
+  test('alphaMode controls how transparent pixels are converted to luminance', async () => {
+    // Transparent image with hidden black pixels and an opaque gray square
+    const image = new Jimp({ width: 4, height: 4, color: 0x00000000 })
+    image.setPixelColor(0x808080FF, 1, 1)
+    image.setPixelColor(0x80808080, 2, 2)
+
+    const instance = new Potrace()
+    await instance.loadImage(image)
+
+    const luminanceAt = (x: number, y: number): number => (instance as any)._luminanceData.getValueAt(x, y)
+
+    // Composited over white by default
+    expect(luminanceAt(0, 0)).toBe(255)
+    expect(luminanceAt(1, 1)).toBe(127)
+    expect(luminanceAt(2, 2)).toBe(191)
+
+    instance.setParameters({ alphaMode: Potrace.ALPHA_BLACK })
+    expect(luminanceAt(0, 0)).toBe(0)
+    expect(luminanceAt(2, 2)).toBe(64)
+
+    instance.setParameters({ alphaMode: '#f00' })
+    expect(luminanceAt(0, 0)).toBe(76)
+
+    instance.setParameters({ alphaMode: Potrace.ALPHA_CHANNEL })
+    expect(luminanceAt(0, 0)).toBe(255)
+    expect(luminanceAt(1, 1)).toBe(0)
+    expect(luminanceAt(2, 2)).toBe(127)
+
+    expect(() => instance.setParameters({ alphaMode: 'red' as any })).toThrow()
+  })
+
+  test('luminanceMode selects formula or channel used for luminance', async () => {
+    const image = new Jimp({ width: 2, height: 1, color: 0xC83264FF })
+    image.setPixelColor(0x00FF0080, 1, 0)
+
+    const instance = new Potrace()
+    await instance.loadImage(image)
+
+    const luminanceAt = (x: number): number => (instance as any)._luminanceData.getValueAt(x, 0)
+    const expected: Record<string, number> = {
+      bt601: 100,
+      bt709: 85,
+      average: 117,
+      lightness: 125,
+      r: 200,
+      g: 50,
+      b: 100,
+      alpha: 255,
+    }
+
+    for (const [luminanceMode, value] of Object.entries(expected)) {
+      instance.setParameters({ luminanceMode: luminanceMode as any })
+      expect(luminanceAt(0)).toBe(value)
+    }
+
+    // Alpha channel is taken as is, color channels after compositing
+    expect(luminanceAt(1)).toBe(128)
+    instance.setParameters({ luminanceMode: Potrace.LUMINANCE_G })
+    expect(luminanceAt(1)).toBe(255)
+    instance.setParameters({ luminanceMode: Potrace.LUMINANCE_R })
+    expect(luminanceAt(1)).toBe(127)
+
+    expect(() => instance.setParameters({ luminanceMode: 'hue' as any })).toThrow()
+  })
+
+  test('histogram of loaded image agrees with the traced bitmap', async () => {
+    const image = await Jimp.read(PATH_TO_LENNA)
+    const instance = new Potrace()
+    await instance.loadImage(image)
+
+    const fromBitmap = new Histogram(instance.getLuminanceData()!)
+    const fromJimp = new Histogram(image)
+
+    expect(Array.from(fromBitmap.data!)).toEqual(Array.from(fromJimp.data!))
+
+    // Formulas differ for colored images, so the comparison above would catch a mismatch
+    expect(Array.from(new Histogram(image, 'bt709').data!)).not.toEqual(Array.from(fromJimp.data!))
+  })
+
+  test('getHistogram and getImageStats report every channel of loaded image', async () => {
+    const image = await Jimp.read(PATH_TO_YAO)
+    const instance = new Potrace({ threshold: 128 })
+
+    expect(() => instance.getHistogram()).toThrow()
+
+    await instance.loadImage(image)
+
+    for (const mode of [Histogram.MODE_R, Histogram.MODE_G, Histogram.MODE_B, Histogram.MODE_ALPHA]) {
+      expect(Array.from(instance.getHistogram(mode).data!)).toEqual(Array.from(new Histogram(image, mode).data!))
+    }
+
+    expect(instance.getHistogram()).toBe((instance as any)._luminanceData.histogram())
+    expect(instance.getHistogram(Histogram.MODE_R)).toBe(instance.getHistogram(Histogram.MODE_R))
+
+    const stats = instance.getImageStats()
+    expect(stats.width).toBe(image.bitmap.width)
+    expect(stats.r.pixels).toBe(image.bitmap.width * image.bitmap.height)
+    expect(stats.alpha.levels.unique).toBe(1)
+    expect(stats.luminance).toEqual(instance.getHistogram().getStats())
+    expect(stats.threshold).toBe(instance.getHistogram().autoThreshold())
+
+    // Channels are reported as loaded, while luminance has the semi-transparent pixel composited over white
+    instance.loadPixels({ data: new Uint8Array([200, 128, 40, 255]), width: 2, height: 1, channels: 2 })
+    expect(instance.getImageStats().alpha.levels.mean).toBe(191.5)
+    expect(instance.getImageStats().g.levels.mean).toBe(120)
+    expect(instance.getImageStats().luminance.levels.mean).not.toBe(120)
+
+    instance.loadBitmap(new Bitmap(2, 2))
+    expect(() => instance.getImageStats()).toThrow()
+  })
+
+  test('loadPixels accepts RGBA and grayscale pixel data', async () => {
+    const jimpInstance = new Potrace({ threshold: 128 })
+    await jimpInstance.loadImage(createSquareImage())
+    const expected = jimpInstance.getSVG()
+
+    const image = createSquareImage()
+    const rgba = new Uint8ClampedArray(image.bitmap.data)
+    const gray = new Uint8Array(20 * 20).map((_, i) => rgba[i * 4])
+    const grayAlpha = new Uint8Array(20 * 20 * 2).map((_, i) => i % 2 ? 255 : gray[i >> 1])
+    const rgb = new Uint8Array(20 * 20 * 3).map((_, i) => gray[Math.floor(i / 3)])
+
+    // ImageData-like object without channels means RGBA
+    const instance = new Potrace({ threshold: 128 })
+    expect(instance.loadPixels({ data: rgba, width: 20, height: 20 })).toBe(instance)
+    expect(instance.getSVG()).toBe(expected)
+
+    instance.loadPixels({ data: gray, width: 20, height: 20, channels: 1 })
+    expect(instance.getSVG()).toBe(expected)
+
+    instance.loadPixels({ data: grayAlpha, width: 20, height: 20, channels: 2 })
+    expect(instance.getSVG()).toBe(expected)
+
+    instance.loadPixels({ data: rgb, width: 20, height: 20, channels: 3 })
+    expect(instance.getSVG()).toBe(expected)
+  })
+
+  test('loadPixels throws on malformed pixel data', () => {
+    const instance = new Potrace()
+
+    expect(() => instance.loadPixels({ data: new Uint8Array(10), width: 4, height: 4 })).toThrow()
+    expect(() => instance.loadPixels({ data: new Uint8Array(16), width: 4, height: 4, channels: 5 as any })).toThrow()
+    expect(() => instance.loadPixels({ data: new Uint8Array(16), width: 0, height: 4, channels: 1 })).toThrow()
+  })
+
+  test('fromBitmap and traceMask trace binary mask without thresholding', async () => {
+    // Masks have no color data, so automatic color resolves to black
+    const reference = new Potrace({ threshold: 128, color: 'black' })
+    await reference.loadImage(createSquareImage())
+    const expected = reference.getSVG()
+
+    const mask = new Uint8Array(20 * 20).map((_, i) => {
+      const x = i % 20
+      const y = Math.floor(i / 20)
+      return x >= 5 && x < 15 && y >= 5 && y < 15 ? 1 : 0
+    })
+
+    // Threshold and blackOnWhite do not apply to masks
+    expect(traceMask(mask, 20, 20, { threshold: 10, blackOnWhite: false })).toBe(expected)
+
+    const bitmap = new Bitmap(20, 20)
+    bitmap.data.set(mask.map(value => value * 255))
+
+    const instance = Potrace.fromBitmap(bitmap)
+    expect(instance).toBeInstanceOf(Potrace)
+    expect(instance.getSVG()).toBe(expected)
+
+    // Mask is copied, so later changes to the bitmap do not affect the result
+    bitmap.data.fill(0)
+    instance.setParameters({ turdSize: 2 })
+    expect(instance.getSVG()).toBe(expected)
+
+    expect(() => traceMask(mask, 30, 30)).toThrow()
+  })
+
+  test('thresholdMethod selects algorithm used for automatic threshold', () => {
+    // Horizontal gradient, so the threshold decides how far traced area reaches
+    const width = 40
+    const height = 10
+    const data = new Uint8Array(width * height).map((_, i) => Math.round((i % width) / (width - 1) * 255))
+    const instance = new Potrace({ thresholdMethod: Histogram.THRESHOLD_PERCENTILE, percentile: 25 })
+      .loadPixels({ data, width, height, channels: 1 })
+
+    const tracedWidth = (): number => Math.max(...(instance as any)._pathlist.map((path: any) => path.maxX))
+
+    instance.getPathTag()
+    expect(tracedWidth()).toBe(10)
+
+    instance.setParameters({ percentile: 75 })
+    instance.getPathTag()
+    expect(tracedWidth()).toBe(30)
+
+    // Percentile is the share of traced pixels, the light ones when blackOnWhite is off.
+    // Pixels at the threshold level count as light, so one more column is traced
+    instance.setParameters({ blackOnWhite: false })
+    instance.getPathTag()
+    expect(Math.min(...(instance as any)._pathlist.map((path: any) => path.minX))).toBe(9)
+
+    expect(() => instance.setParameters({ thresholdMethod: 'huang' as any })).toThrow()
+    expect(() => instance.setParameters({ percentile: 101 })).toThrow()
+  })
+
+  test('adaptive thresholdMode finds dark shapes on uneven background', () => {
+    // Background fades from light to dark, both squares are half as bright as the background around them
+    const width = 60
+    const height = 20
+    const isSquare = (x: number, y: number): boolean => y >= 5 && y < 15 && ((x >= 5 && x < 15) || (x >= 45 && x < 55))
+    const data = new Uint8Array(width * height)
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const background = Math.round(250 - x * 3.5)
+        data[y * width + x] = isSquare(x, y) ? Math.round(background / 2) : background
+      }
+    }
+
+    const luminance = new Bitmap(width, height)
+    luminance.data.set(data)
+
+    for (const method of ['sauvola', 'bradley'] as const) {
+      const binary = luminance.adaptiveThreshold(method, 15)
+      for (let i = 0; i < binary.size; i++) {
+        expect(binary.data[i]).toBe(isSquare(i % width, Math.floor(i / width)) ? 1 : 0)
+      }
+    }
+
+    const countPaths = (instance: Potrace): number => (instance.getPathTag().match(/M/g) || []).length
+    const maxX = (instance: Potrace): number => Math.max(...getPathPoints(instance.getSVG()).map(p => p.x))
+
+    // Global threshold swallows the dark half of the background
+    const instance = new Potrace({ threshold: 128 }).loadPixels({ data, width, height, channels: 1 })
+    expect(maxX(instance)).toBe(width)
+
+    instance.setParameters({ thresholdMode: Potrace.THRESHOLD_SAUVOLA })
+    expect(countPaths(instance)).toBe(2)
+    expect(maxX(instance)).toBeLessThan(56)
+
+    // Light shapes on dark background are found when blackOnWhite is off
+    const inverted = new Potrace({ thresholdMode: 'bradley', blackOnWhite: false })
+      .loadPixels({ data: data.map(value => 255 - value), width, height, channels: 1 })
+    expect(countPaths(inverted)).toBe(2)
+
+    expect(() => instance.setParameters({ thresholdMode: 'local' as any })).toThrow()
+    expect(() => instance.setParameters({ windowSize: 1 })).toThrow()
+    expect(() => instance.setParameters({ windowSize: 7.5 })).toThrow()
+    expect(() => instance.setParameters({ k: Number.NaN })).toThrow()
+  })
+
+  test('preprocess filters remove speckles before decomposition', () => {
+    const width = 60
+    const height = 40
+    const data = new Uint8Array(width * height).fill(230)
+
+    for (let y = 10; y < 30; y++) {
+      data.fill(30, y * width + 20, y * width + 40)
+    }
+
+    // Single pixel specks, dark ones on paper and light ones inside the square
+    for (let i = 0; i < 40; i++) {
+      const x = (i * 37) % width
+      const y = (i * 23) % height
+      const inside = x >= 20 && x < 40 && y >= 10 && y < 30
+      data[y * width + x] = inside ? 230 : 30
+    }
+
+    const countPaths = (instance: Potrace): number => (instance.getPathTag().match(/M/g) || []).length
+    const instance = new Potrace({ threshold: 128, turdSize: 0 }).loadPixels({ data, width, height, channels: 1 })
+    expect(countPaths(instance)).toBeGreaterThan(20)
+
+    instance.setParameters({ preprocess: ['median'] })
+    expect(countPaths(instance)).toBe(1)
+
+    instance.setParameters({ preprocess: [{ filter: 'gaussian', sigma: 1.5 }] })
+    expect(countPaths(instance)).toBe(1)
+
+    // Filters are applied in order, edges are sharpened once specks are gone
+    instance.setParameters({ preprocess: ['median', { filter: 'unsharp', amount: 2 }] })
+    expect(countPaths(instance)).toBe(1)
+    expect(instance.getHistogram().getStats().levels.unique).toBeGreaterThan(2)
+
+    instance.setParameters({ preprocess: [] })
+    expect(countPaths(instance)).toBeGreaterThan(20)
+
+    expect(() => instance.setParameters({ preprocess: ['sharpen' as any] })).toThrow()
+    expect(() => instance.setParameters({ preprocess: [{ filter: 'median', radius: 0 }] })).toThrow()
+    expect(() => instance.setParameters({ preprocess: [{ filter: 'bilateral', sigmaColor: -1 }] })).toThrow()
+    expect(() => instance.setParameters({ preprocess: 'median' as any })).toThrow()
+  })
+
+  test('Bitmap filters smooth noise and keep or enhance edges', () => {
+    const width = 17
+    const height = 13
+    const noisy = new Bitmap(width, height)
+    const step = new Bitmap(40, 1)
+
+    for (let i = 0; i < noisy.size; i++) {
+      noisy.data[i] = (i * 97 + (i % 7) * 31) % 256
+    }
+
+    for (let x = 0; x < step.width; x++) {
+      step.data[x] = x < 20 ? 50 : 200
+    }
+
+    // Median of every window, borders repeat the edge pixels
+    const median = noisy.medianFilter(2)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const values: number[] = []
+
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            values.push(noisy.getValueAt(Math.min(width - 1, Math.max(0, x + dx)), Math.min(height - 1, Math.max(0, y + dy))))
+          }
+        }
+
+        expect(median.getValueAt(x, y)).toBe(values.sort((a, b) => a - b)[12])
+      }
+    }
+
+    const flat = new Bitmap(5, 5).copy(() => 100)
+    for (const filter of ['gaussian', 'median', 'bilateral', 'unsharp'] as const) {
+      expect(Array.from(flat.applyFilter(filter).data)).toEqual(Array.from(flat.data))
+    }
+
+    const blurred = step.gaussianBlur(2)
+    expect(blurred.data[19]).toBeGreaterThan(100)
+    expect(blurred.data[20]).toBeLessThan(150)
+
+    const bilateral = step.bilateralFilter(2, 25)
+    expect(bilateral.data[19]).toBe(50)
+    expect(bilateral.data[20]).toBe(200)
+
+    const sharpened = step.unsharpMask(1, 1)
+    expect(sharpened.data[19]).toBeLessThan(50)
+    expect(sharpened.data[20]).toBeGreaterThan(200)
+    expect(Array.from(step.unsharpMask(1, 1, 255).data)).toEqual(Array.from(step.data))
+
+    expect(Array.from(noisy.applyFilter({ filter: 'gaussian', sigma: 2 }).data)).toEqual(Array.from(noisy.gaussianBlur(2).data))
+    expect(() => noisy.applyFilter('sharpen' as any)).toThrow()
+    expect(() => noisy.gaussianBlur(0)).toThrow()
+    expect(() => noisy.medianFilter(1.5)).toThrow()
+    expect(() => noisy.unsharpMask(1, -1)).toThrow()
+  })
+
+  test('morphology option closes gaps and opens bridges before decomposition', () => {
+    const width = 40
+    const height = 20
+    const fill = (data: Uint8Array, x0: number, y0: number, x1: number, y1: number): void => {
+      for (let y = y0; y < y1; y++) {
+        data.fill(0, y * width + x0, y * width + x1)
+      }
+    }
+
+    // Stroke broken by a one pixel gap
+    const broken = new Uint8Array(width * height).fill(255)
+    fill(broken, 5, 8, 19, 12)
+    fill(broken, 20, 8, 35, 12)
+
+    // Two blobs joined by a one pixel thin bridge
+    const bridged = new Uint8Array(width * height).fill(255)
+    fill(bridged, 5, 5, 15, 15)
+    fill(bridged, 25, 5, 35, 15)
+    fill(bridged, 15, 10, 25, 11)
+
+    const countPaths = (instance: Potrace): number => (instance.getPathTag().match(/M/g) || []).length
+    const instance = new Potrace({ threshold: 128, turdSize: 0 })
+
+    instance.loadPixels({ data: broken, width, height, channels: 1 })
+    expect(countPaths(instance)).toBe(2)
+    instance.setParameters({ morphology: ['close'] })
+    expect(countPaths(instance)).toBe(1)
+
+    instance.setParameters({ morphology: [] }).loadPixels({ data: bridged, width, height, channels: 1 })
+    expect(countPaths(instance)).toBe(1)
+    instance.setParameters({ morphology: [{ operation: 'open', element: 'cross' }] })
+    expect(countPaths(instance)).toBe(2)
+
+    // Applies to binary masks as well
+    const mask = new Bitmap(width, height).copy((_, i) => bridged[i] ? 0 : 1)
+    expect(countPaths(Potrace.fromBitmap(mask, { turdSize: 0, morphology: ['open'] }))).toBe(2)
+
+    expect(() => instance.setParameters({ morphology: ['thin' as any] })).toThrow()
+    expect(() => instance.setParameters({ morphology: [{ operation: 'erode', radius: 0 }] })).toThrow()
+    expect(() => instance.setParameters({ morphology: [{ operation: 'dilate', element: [[1, 1]] }] })).toThrow()
+    expect(() => instance.setParameters({ morphology: 'open' as any })).toThrow()
+  })
+
+  test('Bitmap morphology operations use given structuring element', () => {
+    const dot = new Bitmap(11, 11)
+    dot.data[dot.pointToIndex(5, 5)] = 1
+
+    const setPixels = (bitmap: Bitmap): number[] => Array.from(bitmap.data.keys()).filter(i => bitmap.data[i])
+    const count = (bitmap: Bitmap): number => setPixels(bitmap).length
+
+    expect(count(dot.dilate())).toBe(9)
+    expect(count(dot.dilate('cross', 2))).toBe(9)
+    expect(count(dot.dilate('disk', 2))).toBe(13)
+    expect(count(dot.dilate('square', 2))).toBe(25)
+    expect(setPixels(dot.dilate('square').erode('square'))).toEqual(setPixels(dot))
+
+    // Dilation spreads every set pixel to element offsets, origin is the middle of the matrix
+    const element = [
+      [0, 0, 0],
+      [1, 1, 0],
+      [0, 0, 0],
+    ]
+    expect(setPixels(dot.dilate(element))).toEqual([dot.pointToIndex(4, 5), dot.pointToIndex(5, 5)])
+    expect(setPixels(dot.dilate(element).erode(element))).toEqual(setPixels(dot))
+
+    // Pixels beyond borders do not erode shapes touching them
+    const full = new Bitmap(6, 4).copy(() => 255)
+    expect(count(full.erode('square', 2))).toBe(full.size)
+    expect(count(full.open())).toBe(full.size)
+
+    expect(setPixels(dot.applyMorphology({ operation: 'close', element: 'disk', radius: 2 }))).toEqual(setPixels(dot))
+    expect(setPixels(dot.applyMorphology('open'))).toEqual([])
+
+    expect(() => dot.erode('diamond' as any)).toThrow()
+    expect(() => dot.erode('square', 1.5)).toThrow()
+    expect(() => dot.dilate([[0]])).toThrow()
+    expect(() => dot.applyMorphology('thin' as any)).toThrow()
+  })
+
+  test('getPathTree nests holes in outlines and islands in holes', () => {
+    const bitmap = new Bitmap(50, 40)
+    const fill = (x0: number, y0: number, x1: number, y1: number, value: number): void => {
+      for (let y = y0; y < y1; y++) {
+        bitmap.data.fill(value, y * bitmap.width + x0, y * bitmap.width + x1)
+      }
+    }
+
+    // Square ring with an island that has its own hole, plus a separate small square
+    fill(2, 2, 38, 38, 1)
+    fill(8, 8, 32, 32, 0)
+    fill(14, 14, 26, 26, 1)
+    fill(18, 18, 22, 22, 0)
+    fill(42, 5, 48, 11, 1)
+
+    const instance = Potrace.fromBitmap(bitmap)
+    const roots = instance.getPathTree()
+
+    expect(roots.map(node => node.type)).toEqual(['outline', 'outline'])
+    expect(roots.map(node => node.path.area)).toEqual([36 * 36, 6 * 6])
+    expect(roots[1].children).toEqual([])
+
+    const [hole] = roots[0].children
+    expect(roots[0].children).toHaveLength(1)
+    expect(hole.type).toBe('hole')
+    expect(hole.parent).toBe(roots[0])
+    expect(hole.path.curve).not.toBeNull()
+
+    const [island] = hole.children
+    expect(island.type).toBe('outline')
+    expect(island.parent).toBe(hole)
+    expect(island.children.map(node => [node.type, node.path.area])).toEqual([['hole', 16]])
+
+    // Paths removed by turdSize are left out of the tree
+    instance.setParameters({ turdSize: 16 })
+    const [outline] = instance.getPathTree()
+    expect(outline.children[0].children[0].children).toEqual([])
+
+    expect(() => new Potrace().getPathTree()).toThrow()
+  })
+
+  test('connectivity decides whether diagonally touching pixels are joined regardless of turnPolicy', () => {
+    // Two squares touching at a corner
+    const bitmap = new Bitmap(10, 10)
+
+    for (const [x, y] of [[2, 2], [3, 2], [2, 3], [3, 3], [4, 4], [5, 4], [4, 5], [5, 5]]) {
+      bitmap.data[bitmap.pointToIndex(x, y)] = 1
+    }
+
+    const signs = (instance: Potrace): string => instance.getResult().paths.map(path => path.sign).join('')
+    const instance = Potrace.fromBitmap(bitmap, { turdSize: 0, turnPolicy: Potrace.TURNPOLICY_WHITE })
+
+    expect(signs(instance)).toBe('++')
+    instance.setParameters({ connectivity: 8 })
+    expect(signs(instance)).toBe('+')
+    instance.setParameters({ turnPolicy: Potrace.TURNPOLICY_BLACK, connectivity: 4 })
+    expect(signs(instance)).toBe('++')
+    instance.setParameters({ connectivity: null })
+    expect(signs(instance)).toBe('+')
+
+    // Holes follow the same rule, diagonally touching holes are joined when the ink around them is not
+    const inverted = bitmap.copy(value => value ? 0 : 1)
+    expect(signs(Potrace.fromBitmap(inverted, { turdSize: 0, connectivity: 8 }))).toBe('+--')
+    expect(signs(Potrace.fromBitmap(inverted, { turdSize: 0, connectivity: 4 }))).toBe('+-')
+
+    expect(() => instance.setParameters({ connectivity: 6 as any })).toThrow()
+  })
+
+  test('centerline mode traces skeleton of strokes as stroked open paths and loops', () => {
+    const bitmap = new Bitmap(60, 40)
+    const fill = (x0: number, y0: number, x1: number, y1: number): void => {
+      for (let y = y0; y < y1; y++) {
+        bitmap.data.fill(1, y * bitmap.width + x0, y * bitmap.width + x1)
+      }
+    }
+
+    // Horizontal bar, 4 pixels thick
+    fill(5, 8, 35, 12)
+
+    const instance = Potrace.fromBitmap(bitmap, { mode: Potrace.MODE_CENTERLINE })
+    const bar = instance.getResult()
+
+    expect(bar.paths).toHaveLength(1)
+    expect(bar.paths[0].area).toBe(0)
+    expect(bar.paths[0].start!.y).toBeCloseTo(9.5)
+    expect(bar.paths[0].segments[bar.paths[0].segments.length - 1].end.y).toBeCloseTo(9.5)
+    expect(bar.strokeWidth!).toBeGreaterThan(3.5)
+    expect(bar.strokeWidth!).toBeLessThan(5)
+
+    const tag = instance.getPathTag()
+    expect(tag).toContain('fill="none"')
+    expect(tag).toContain('stroke-linecap="round"')
+    expect(tag).toMatch(/^<path d="M 7\.500 9\.500 L/)
+    expect(Number(tag.match(/stroke-width="([\d.]+)"/)![1])).toBeCloseTo(bar.strokeWidth!, 3)
+
+    // Crossbar turns it into a "T" with three strokes meeting at the junction, and outlines are left untouched
+    fill(18, 12, 22, 35)
+    instance.loadBitmap(bitmap)
+    expect(instance.getResult().paths).toHaveLength(3)
+    expect(instance.getPathTree().every(node => !node.parent && !node.children.length)).toBe(true)
+    expect(Potrace.fromBitmap(bitmap).getResult().paths).toHaveLength(1)
+
+    // Ring has no ends, it is traced as a single closed curve
+    const ring = new Bitmap(40, 40).copy((_, i) => {
+      const d = Math.hypot(i % 40 - 19.5, Math.floor(i / 40) - 19.5)
+      return d > 10 && d < 14 ? 1 : 0
+    })
+    const loop = Potrace.fromBitmap(ring, { mode: 'centerline' }).getResult().paths
+    expect(loop).toHaveLength(1)
+    expect(loop[0].start).toBeUndefined()
+    expect(loop[0].bbox.width).toBeGreaterThan(20)
+    expect(loop[0].bbox.width).toBeLessThan(28)
+
+    // Output size scales stroke width as well
+    const scaled = Potrace.fromBitmap(bitmap, { mode: 'centerline', width: 120 }).getResult()
+    expect(scaled.strokeWidth!).toBeCloseTo(instance.getResult().strokeWidth! * 2)
+
+    expect(() => instance.setParameters({ mode: 'skeleton' as any })).toThrow()
+  })
+
+  test('Bitmap thin reduces shapes to one pixel wide skeleton', () => {
+    const block = new Bitmap(30, 15)
+
+    for (let y = 4; y < 11; y++) {
+      block.data.fill(1, y * 30 + 3, y * 30 + 27)
+    }
+
+    const skeleton = block.thin()
+    const setPixels = Array.from(skeleton.data.keys()).filter(i => skeleton.data[i])
+
+    expect(setPixels.length).toBeGreaterThan(0)
+    expect(setPixels.every(i => block.data[i])).toBe(true)
+
+    // No 2x2 square of skeleton pixels is left anywhere
+    for (const i of setPixels) {
+      expect(skeleton.data[i + 1] && skeleton.data[i + 30] && skeleton.data[i + 31]).toBeFalsy()
+    }
+
+    // Lines one pixel thin are skeletons already
+    const line = new Bitmap(10, 3)
+    line.data.fill(1, 11, 19)
+    expect(Array.from(line.thin().data)).toEqual(Array.from(line.data))
+  })
+
+  test('transparent pixels are not traced as ink', async () => {
+    const image = new Jimp({ width: 20, height: 20, color: 0x00000000 })
+    for (let y = 5; y < 15; y++) {
+      for (let x = 5; x < 15; x++) {
+        image.setPixelColor(0x000000FF, x, y)
+      }
+    }
+
+    const instance = new Potrace({ threshold: 128 })
+    await instance.loadImage(image)
+
+    const points = getPathPoints(instance.getSVG())
+    expect(Math.min(...points.map(p => p.x))).toBeGreaterThanOrEqual(4)
+    expect(Math.max(...points.map(p => p.x))).toBeLessThanOrEqual(16)
+  })
+
   test('getSymbol should not have fill color or background', async () => {
     const instanceYao = new Potrace()
 
@@ -321,4 +1227,23 @@ describe('Shorthand methods', () => {
       })
     })
   })
+
+  test('traceAsync resolves to SVG string and instance', async () => {
+    const { svg, instance } = await traceAsync(jimpInstance, { threshold: 170 })
+
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"')
+    expect(svg).toContain('<path d="')
+    expect(svg).toContain('</svg>')
+    expect(instance).toBeInstanceOf(Potrace)
+  })
+
+  test('traceAsync works without options', async () => {
+    const { svg } = await traceAsync(PATH_TO_YAO)
+
+    expect(svg).toContain('<svg')
+  })
+
+  test('traceAsync rejects if path to image is invalid', async () => {
+    await expect(traceAsync('invalid/path')).rejects.toBeDefined()
+  })
 })